@@ -7,6 +7,7 @@ __DebugAdapter = __DebugAdapter or {}
 
 local datastring = require("__debugadapter__/datastring.lua")
 local ReadBreakpoints = datastring.ReadBreakpoints
+local ReadFunctionBreakpoints = datastring.ReadFunctionBreakpoints
 local json = require('__debugadapter__/json.lua')
 local script = script
 local remote = remote
@@ -35,6 +36,21 @@ local function updateBreakpoints(change)
 end
 __DebugAdapter.updateBreakpoints = updateBreakpoints
 
+local function updateFunctionBreakpoints(change)
+  callAll("setFunctionBreakpoints",ReadFunctionBreakpoints(change))
+end
+__DebugAdapter.updateFunctionBreakpoints = updateFunctionBreakpoints
+
+local function updateEventBreakpoints(change)
+  callAll("setEventBreakpoints",change)
+end
+__DebugAdapter.updateEventBreakpoints = updateEventBreakpoints
+
+local function pause(pause)
+  callAll("setPause",pause)
+end
+__DebugAdapter.pause = pause
+
 local whoiscache = {}
 local function whois(remotename)
   local interfaces = remote.interfaces
@@ -72,6 +88,98 @@ script.on_load(function()
   debug.debug()
 end)
 
+--- describe a console result, without variable references to expand
+---@param value any
+---@return string
+local function describe(value)
+  if type(value) == "table" then
+    local success,name = pcall(function() return value.object_name end)
+    if success and name then return "<" .. name .. ">" end
+    return serpent.line(value,{comment=false,nocode=true})
+  end
+  return tostring(value)
+end
+
+--- evaluate a debug console command queued while running, in this mod's state, like `/c`
+---@param expression string
+---@param seq number
+function __DebugAdapter.evaluateRunning(expression,seq)
+  local f, res = load('return '.. expression, "=(repl)", "t")
+  if not f then f, res = load(expression, "=(repl)", "t") end
+  local evalresult
+  if f then
+    local success,result = pcall(f)
+    if success then
+      evalresult = {result = describe(result), type = type(result), variablesReference = 0, seq = seq}
+    else
+      evalresult = {result = describe(result), type = "error", variablesReference = 0, seq = seq}
+    end
+  else
+    evalresult = {result = res, type = "error", variablesReference = 0, seq = seq}
+  end
+  print("DBGeval: " .. json.encode(evalresult))
+end
+
+--- answer a console meta-command with the text `f` returns, or the error it raises
+---@param seq number
+---@param f fun():string
+local function runCommand(seq,f)
+  local success,result = pcall(f)
+  print("DBGeval: " .. json.encode({
+    result = success and result or describe(result),
+    type = success and "string" or "error",
+    variablesReference = 0, seq = seq}))
+end
+
+---@param speed number
+---@param seq number
+function __DebugAdapter.setSpeed(speed,seq)
+  runCommand(seq,function()
+    game.speed = speed
+    return "game speed " .. game.speed
+  end)
+end
+
+---@param name string
+---@param seq number
+function __DebugAdapter.save(name,seq)
+  runCommand(seq,function()
+    if game.is_multiplayer() then
+      game.server_save(name)
+      return "saving " .. name
+    else
+      -- singleplayer can only save through autosaves
+      game.auto_save(name)
+      return "saving _autosave-" .. name
+    end
+  end)
+end
+
+---@param seq number
+function __DebugAdapter.reloadScript(seq)
+  runCommand(seq,function()
+    game.reload_script()
+    return "reloading scripts"
+  end)
+end
+
+--- report Lua memory in use by each hooked mod
+---@param seq number
+function __DebugAdapter.luaMemory(seq)
+  runCommand(seq,function()
+    local memory = callAll("luaMemory")
+    memory["debugadapter"] = collectgarbage("count")
+    local names = {}
+    for name in pairs(memory) do names[#names + 1] = name end
+    table.sort(names)
+    local lines = {}
+    for _,name in pairs(names) do
+      lines[#lines + 1] = ("%s: %.1f KiB"):format(name,memory[name])
+    end
+    return table.concat(lines,"\n")
+  end)
+end
+
 script.on_event(defines.events.on_tick,function()
   print("DBG: on_tick")
   debug.debug()
@@ -79,6 +187,9 @@ end)
 
 remote.add_interface("debugadapter",{
   updateBreakpoints = updateBreakpoints,
+  updateFunctionBreakpoints = updateFunctionBreakpoints,
+  updateEventBreakpoints = updateEventBreakpoints,
+  pause = pause,
   whois = whois,
   error = error,
 })
\ No newline at end of file
@@ -204,10 +204,77 @@ local function ReadBreakpoints(strdata)
 end
 stepIgnore(ReadBreakpoints)
 
+--[[
+functionbreakpoints = {
+    byte numbps, FF = no bps, FE = 10
+    fbp[]
+    {
+        varint namelength
+        string name
+        byte hasextra, 0x01 = condition | 0x02 = hitcount
+        extras[] -- in order, condition then hit
+        {
+            varint length
+            string expression
+        }
+    }
+}
+]]
+
+---@param strdata string
+---@param i number
+---@return FunctionBreakpoint breakpoint
+---@return number nextIndex
+local function ReadFunctionBreakpoint(strdata,i)
+    ---@type FunctionBreakpoint
+    local bp = {}
+
+    bp.name,i = ReadString(strdata,i)
+    local mask = sbyte(strdata,i)
+    i = i + 1
+
+    if band(mask,0x01) ~= 0 then
+        bp.condition,i = ReadString(strdata,i)
+    end
+    if band(mask,0x02) ~= 0 then
+        bp.hitCondition,i = ReadString(strdata,i)
+    end
+
+    return bp,i
+end
+stepIgnore(ReadFunctionBreakpoint)
+
+---@param strdata string
+---@return FunctionBreakpoint[] breakpoints
+local function ReadFunctionBreakpoints(strdata)
+    local i = 1
+    local val
+
+    ---@type FunctionBreakpoint[]
+    local bps = {}
+
+    val,i = sbyte(strdata,i),i+1
+    if val == 0xfc then val = 13 end
+    if val == 0xfd then val = 26 end
+    if val == 0xfe then val = 10 end
+    if val and val ~= 0xff then
+        for j = 1,val,1 do
+            local bp
+            bp,i = ReadFunctionBreakpoint(strdata,i)
+            bps[#bps+1] = bp
+        end
+    end
+
+    return bps
+end
+stepIgnore(ReadFunctionBreakpoints)
+
 return {
     ReadVarInt = ReadVarInt,
     WriteVarInt = WriteVarInt,
     ReadString = ReadString,
     ReadSourceBreakpoint = ReadSourceBreakpoint,
     ReadBreakpoints = ReadBreakpoints,
+    ReadFunctionBreakpoint = ReadFunctionBreakpoint,
+    ReadFunctionBreakpoints = ReadFunctionBreakpoints,
 }
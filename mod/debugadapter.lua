@@ -24,6 +24,7 @@ require("__debugadapter__/stepping.lua")
 
 local variables = require("__debugadapter__/variables.lua") -- uses pcall
 local normalizeLuaSource = require("__debugadapter__/normalizeLuaSource.lua")
+local loadedsources = require("__debugadapter__/loadedsources.lua")
 local remotestepping
 if script then -- don't attempt to hook in data stage
   remotestepping = require("__debugadapter__/remotestepping.lua") -- uses xpcall in non-instrument mode
@@ -71,7 +72,8 @@ function __DebugAdapter.stackTrace(startFrame, levels, forRemote)
     end
     local source = normalizeLuaSource(info.source)
     local isC = info.what == "C"
-    local noSource = isC or (source:sub(1,1) == "=")
+    local chunk = not isC and loadedsources.isChunk(info.source) and loadedsources.chunk(info.source,i)
+    local noSource = isC or (source:sub(1,1) == "=" and not chunk)
     local stackFrame = {
       id = i,
       name = framename,
@@ -86,7 +88,11 @@ function __DebugAdapter.stackTrace(startFrame, levels, forRemote)
     if noSource or __DebugAdapter.isStepIgnore(info.func) then
       stackFrame.source.presentationHint = "deemphasize"
     end
-    if not noSource then
+    if chunk then
+      -- no file for this one, the adapter will fetch the text by chunk id
+      stackFrame.source.name = chunk.name
+      stackFrame.source.chunk = chunk.chunk
+    elseif not noSource then
       stackFrame.source.path = source
     end
     stackFrames[#stackFrames+1] = stackFrame
@@ -316,8 +322,13 @@ do
     log("debugadapter registered for " .. script.mod_name .. ininstrument)
     remote.add_interface("__debugadapter_" .. script.mod_name ,{
       setBreakpoints = __DebugAdapter.setBreakpoints,
+      setFunctionBreakpoints = __DebugAdapter.setFunctionBreakpoints,
+      setEventBreakpoints = __DebugAdapter.setEventBreakpoints,
+      setPause = __DebugAdapter.setPause,
+      chunkSource = __DebugAdapter.chunkSource,
       remoteCallInner = remotestepping.callInner,
-      remoteHasInterface = remotestepping.hasInterface
+      remoteHasInterface = remotestepping.hasInterface,
+      luaMemory = function() return collectgarbage("count") end
     })
 
     __DebugAdapter.attach()
@@ -3,8 +3,43 @@ local remote = remote and rawget(remote,"__raw") or remote
 local oldpcall = pcall
 local oldxpcall = xpcall
 local localised_print = localised_print
+local variables = require("__debugadapter__/variables.lua")
+local json = require("__debugadapter__/json.lua")
+
+-- details of the most recent exception, for exceptionInfo
+local lastException
+
+--- find the code that raised an exception, above the debug adapter's own handlers
+--- and any C functions between them, such as `error` or the pcall message handler
+---@param level number stack level to start looking from
+---@return number
+local function exception_level(level)
+  local i = level + 1
+  local info = debug.getinfo(i,"Sf")
+  while info do
+    if info.what ~= "C" and not __DebugAdapter.isStepIgnore(info.func) then
+      return i - 1
+    end
+    i = i + 1
+    info = debug.getinfo(i,"Sf")
+  end
+  return level
+end
+__DebugAdapter.stepIgnore(exception_level)
+
+local function record_exception(type,mesg)
+  lastException = {
+    filter = type,
+    mesg = mesg,
+    -- 1 = record_exception, the caller depends on which handler caught it
+    traceback = debug.traceback("",exception_level(2)):gsub("^\n",""),
+    entrypoint = __DebugAdapter.getEntryPointName(),
+  }
+end
+__DebugAdapter.stepIgnore(record_exception)
 
 local function print_exception(type,mesg)
+  record_exception(type,mesg)
   if mesg == nil then mesg = "<nil>" end
   localised_print({"",
   "***DebugAdapterBlockPrint***\n"..
@@ -15,12 +50,14 @@ local function print_exception(type,mesg)
 end
 if not localised_print then
   function print_exception(type,mesg)
+    record_exception(type,mesg)
     print("***DebugAdapterBlockPrint***\n"..
     "DBG: exception "..type.."\n"..
     __DebugAdapter.describe(mesg).."\n"..
     "***EndDebugAdapterBlockPrint***")
   end
 end
+__DebugAdapter.stepIgnore(print_exception)
 
 function __DebugAdapter.breakpoint(mesg)
   if mesg then
@@ -88,6 +125,22 @@ end
 --shared for remotestepping
 __DebugAdapter.on_exception = on_exception
 
+---@param seq number
+function __DebugAdapter.exceptionInfo(seq)
+  local info = { seq = seq }
+  local ex = lastException
+  if ex then
+    info.filter = ex.filter
+    info.traceback = ex.traceback
+    info.entrypoint = ex.entrypoint
+    if type(ex.mesg) == "table" then
+      -- LocalisedStrings and other structured errors
+      info.value = variables.create("error",ex.mesg)
+    end
+  end
+  print("DBGexceptioninfo: " .. json.encode(info))
+end
+
 local entrypoint = {}
 
 function __DebugAdapter.getEntryPointName()
@@ -106,10 +159,11 @@ end
 if not script then return end
 local try
 if __DebugAdapter.instrument then
-  function try(func,entryname)
+  function try(func,entryname,eventname)
     if func == nil then return nil end
     local try_func = function(...)
       __DebugAdapter.pushEntryPointName(entryname)
+      if eventname then __DebugAdapter.eventBreakpoint(eventname) end
       func(...)
       __DebugAdapter.popEntryPointName()
     end
@@ -117,10 +171,11 @@ if __DebugAdapter.instrument then
     return try_func
   end
 else
-  function try(func,entryname)
+  function try(func,entryname,eventname)
     if func == nil then return nil end
     local try_func = function(...)
       __DebugAdapter.pushEntryPointName(entryname)
+      if eventname then __DebugAdapter.eventBreakpoint(eventname) end
       local success,message = oldxpcall(func,on_exception,...)
       if not success then
         -- factorio will add a new stacktrace below whatever i give it here, and there doesn't seem to be anything i can do about it.
@@ -137,7 +192,7 @@ end
 __DebugAdapter.stepIgnore(try)
 
 local function caught(filter, user_handler)
-  return function(mesg)
+  local handler = function(mesg)
     print_exception(filter,mesg)
     debug.debug()
     if user_handler then
@@ -146,6 +201,8 @@ local function caught(filter, user_handler)
       return mesg
     end
   end
+  __DebugAdapter.stepIgnore(handler)
+  return handler
 end
 
 function pcall(func,...)
@@ -267,17 +324,17 @@ end
 __DebugAdapter.stepIgnore(check_events)
 
 function newscript.on_init(f)
-  oldscript.on_init(check_events(try(f,"on_init handler")))
+  oldscript.on_init(check_events(try(f,"on_init handler","on_init")))
 end
 newscript.on_init()
 
 function newscript.on_load(f)
-  oldscript.on_load(check_events(try(f,"on_load handler")))
+  oldscript.on_load(check_events(try(f,"on_load handler","on_load")))
 end
 newscript.on_load()
 
 function newscript.on_configuration_changed(f)
-  return oldscript.on_configuration_changed(try(f,"on_configuration_changed handler"))
+  return oldscript.on_configuration_changed(try(f,"on_configuration_changed handler","on_configuration_changed"))
 end
 
 function newscript.on_nth_tick(tick,f)
@@ -286,9 +343,9 @@ function newscript.on_nth_tick(tick,f)
   else
     local ttype = type(tick)
     if ttype == "number" then
-      return oldscript.on_nth_tick(tick,try(f,("on_nth_tick %d handler"):format(tick)))
+      return oldscript.on_nth_tick(tick,try(f,("on_nth_tick %d handler"):format(tick),"on_nth_tick"))
     elseif ttype == "table" then
-      return oldscript.on_nth_tick(tick,try(f,("on_nth_tick {%s} handler"):format(table.concat(tick,","))))
+      return oldscript.on_nth_tick(tick,try(f,("on_nth_tick {%s} handler"):format(table.concat(tick,",")),"on_nth_tick"))
     else
       error("Bad argument `tick` expected number or table got "..ttype,2)
     end
@@ -307,10 +364,10 @@ function newscript.on_event(event,f,filters)
       end
     end
     registered_handlers[event] = f and true
-    return oldscript.on_event(event,try(f, ("%s handler"):format(evtname)),filters)
+    return oldscript.on_event(event,try(f, ("%s handler"):format(evtname), evtname),filters)
   elseif etype == "string" then
     registered_handlers[event] = f and true
-    return oldscript.on_event(event,try(f, ("%s handler"):format(event)))
+    return oldscript.on_event(event,try(f, ("%s handler"):format(event), event))
   elseif etype == "table" then
     for _,e in pairs(event) do
       newscript.on_event(e,f)
@@ -1,4 +1,5 @@
 local variables = require("__debugadapter__/variables.lua")
+local luaObjectInfo = require("__debugadapter__/luaobjectinfo.lua")
 local json = require("__debugadapter__/json.lua")
 local __DebugAdapter = __DebugAdapter
 local debug = debug
@@ -291,4 +292,79 @@ function __DebugAdapter.evaluate(frameId,context,expression,seq)
     evalresult = {result = "Cannot Evaluate in Remote Frame", type="error", variablesReference=0, seq=seq}
   end
   print("DBGeval: " .. json.encode(evalresult))
+end
+
+---@param frameId number
+---@param text string
+---@param column number
+---@param seq number
+function __DebugAdapter.completions(frameId,text,column,seq)
+  local getinfo = debug.getinfo
+  local targets = {}
+  local seen = {}
+  local function add(label,ctype)
+    if type(label) == "string" and not seen[label] and label:match("^[%a_][%w_]*$") then
+      seen[label] = true
+      targets[#targets+1] = { label = label, type = ctype }
+    end
+  end
+  __DebugAdapter.stepIgnore(add)
+
+  local info = getinfo(frameId,"f")
+  if info then
+    local line = text:sub(1,column-1)
+    local partial = line:match("[%w_]*$")
+    local before = line:sub(1,#line-#partial)
+    local base,sep = before:match("([%w_%.%[%]\"']+)([%.:])$")
+    if base then
+      -- member completion, evaluate the base and list its keys...
+      -- only simple indexing is accepted, so this won't call anything unexpected
+      local success,result = __DebugAdapter.evaluateInternal(frameId+1,nil,"completions",base)
+      if success and type(result) == "table" then
+        local _,vtype = variables.describe(result,true)
+        if vtype:sub(1,3) == "Lua" then
+          local keys = luaObjectInfo.expandKeys[vtype]
+          if keys then
+            for key,keyprops in pairs(keys) do
+              if not (keyprops.thisAsTable or keyprops.thisTranslated) then
+                add(key, "property")
+              end
+            end
+          end
+        else
+          for k,v in pairs(result) do
+            local vt = type(v)
+            if sep == ":" then
+              if vt == "function" then add(k, "method") end
+            else
+              add(k, vt == "function" and "function" or "field")
+            end
+          end
+        end
+      end
+    elseif not before:match("[%.:]$") then
+      -- plain identifier: locals, then upvalues, then globals
+      local i = 1
+      while true do
+        local name = debug.getlocal(frameId,i)
+        if not name then break end
+        if name:sub(1,1) ~= "(" then
+          add(name, "variable")
+        end
+        i = i + 1
+      end
+      local func = info.func
+      i = 1
+      while true do
+        local name = debug.getupvalue(func,i)
+        if not name then break end
+        add(name, "variable")
+        i = i + 1
+      end
+      for k,v in pairs(_ENV) do
+        add(k, type(v) == "function" and "function" or "variable")
+      end
+    end
+  end
+  print("DBGcompletions: " .. json.encode({seq = seq, targets = targets}))
 end
\ No newline at end of file
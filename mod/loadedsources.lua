@@ -0,0 +1,145 @@
+local __DebugAdapter = __DebugAdapter
+local debug = debug
+local getinfo = debug.getinfo
+local string = string
+local ssub = string.sub
+local smatch = string.match
+local sgmatch = string.gmatch
+local mmax = math.max
+local load = load
+local print = print
+local script = script
+-- capture the raw object, before remotestepping hooks it
+local remote = remote and rawget(remote,"__raw") or remote
+
+local normalizeLuaSource = require("__debugadapter__/normalizeLuaSource.lua")
+local json = require("__debugadapter__/json.lua")
+
+-- chunks are numbered per Lua state, so the state name is needed to find them again
+local state = script and script.mod_name or "data"
+
+local knownSources = {}
+---@type table<string,table>
+local chunks = {}
+-- the text of each chunk, or false if `load` was given a name, so the source is not the text
+---@type table<number,string|false>
+local chunkText = {}
+-- the source each chunk is known by
+---@type table<number,string>
+local chunkSources = {}
+local nextChunkId = 1
+-- only the text of recent chunks is kept, so repeated `load`s of generated code don't grow memory forever
+local maxChunkText = 100
+local oldestChunkId = 1
+
+local loadedsources = {}
+
+--- find the mod that ran a chunk, from the first file-based frame below it
+---@param level number
+---@return string
+local function chunkModule(level)
+  if script then return script.mod_name end
+  local i = level + 1
+  while true do
+    local info = getinfo(i,"S")
+    if not info then return state end
+    local modname = smatch(info.source,"^@__(.-)__/")
+    if modname then return modname end
+    i = i + 1
+  end
+end
+
+--- whether a chunk's `source` is its text, rather than a name given to `load`
+---@param source string
+---@param level number stack level of a function from the chunk
+---@return boolean
+local function isChunkText(source,level)
+  -- text compiles, and has at least as many lines as any function running from it
+  if not load(source,"=(source check)","t") then return false end
+  local info = getinfo(level + 1,"Sl")
+  local lines = 1
+  for _ in sgmatch(source,"\n") do lines = lines + 1 end
+  return mmax(info.currentline,info.lastlinedefined) <= lines
+end
+__DebugAdapter.stepIgnore(isChunkText)
+
+--- get (or assign) the id of a chunk that was loaded from a string
+---@param source string
+---@param level number stack level of the chunk's frame
+---@return table
+function loadedsources.chunk(source,level)
+  local chunk = chunks[source]
+  if not chunk then
+    local id = nextChunkId
+    nextChunkId = id + 1
+    chunk = {
+      chunk = { state = state, id = id },
+      name = ("(load %d)"):format(id),
+      module = chunkModule(level + 1),
+    }
+    chunks[source] = chunk
+    chunkText[id] = isChunkText(source,level + 1) and source
+    chunkSources[id] = source
+    knownSources[source] = true
+    if id - oldestChunkId >= maxChunkText then
+      -- forget the oldest chunk entirely, it will get a new id if it runs again
+      local oldest = chunkSources[oldestChunkId]
+      chunkText[oldestChunkId] = nil
+      chunkSources[oldestChunkId] = nil
+      chunks[oldest] = nil
+      knownSources[oldest] = nil
+      oldestChunkId = oldestChunkId + 1
+    end
+    print("EVTsource: " .. json.encode(chunk))
+  end
+  return chunk
+end
+
+--- notify the debug adapter of a main chunk the first time it runs
+---@param source string
+---@param level number stack level of the chunk's frame
+function loadedsources.seen(source,level)
+  if knownSources[source] then return end
+  local first = ssub(source,1,1)
+  if first == "@" then
+    knownSources[source] = true
+    print("EVTsource: " .. json.encode({ path = normalizeLuaSource(source) }))
+  elseif first ~= "=" then
+    loadedsources.chunk(source,level + 1)
+  end
+end
+
+---@param source string
+---@return boolean
+function loadedsources.isChunk(source)
+  local first = ssub(source,1,1)
+  return first ~= "@" and first ~= "="
+end
+
+---@param id number
+---@return string|false|nil
+function __DebugAdapter.chunkSource(id)
+  return chunkText[id]
+end
+
+--- print the text of a chunk for the debug adapter, from whichever Lua state loaded it
+---@param chunkstate string
+---@param id number
+---@param seq number
+function __DebugAdapter.source(chunkstate,id,seq)
+  local content
+  if chunkstate == state then
+    content = chunkText[id]
+  elseif remote and remote.interfaces["__debugadapter_" .. chunkstate] then
+    content = remote.call("__debugadapter_" .. chunkstate,"chunkSource",id)
+  end
+  local unavailable
+  if content == false then
+    content = nil
+    unavailable = "this chunk was loaded with a name, so its text is not available"
+  end
+  print("DBGsource: " .. json.encode({seq = seq, content = content, unavailable = unavailable}))
+end
+
+__DebugAdapter.stepIgnoreAll(loadedsources)
+return loadedsources
\ No newline at end of file
@@ -12,6 +12,13 @@ if not debug.getregistry().__DASentModules then
     }
   end
   modules[#modules+1] = { id = "level", name = "level", }
+  local events = {"on_init", "on_load", "on_configuration_changed", "on_nth_tick"}
+  for name in pairs(defines.events) do
+    events[#events+1] = name
+  end
+  -- must match protocolVersion in the extension
+  print("EVTprotocol: " .. json.encode({version = 1}))
+  print("EVTevents: " .. json.encode(events))
   print("EVTmodules: " .. json.encode(modules))
   debug.getregistry().__DASentModules = true
 end
\ No newline at end of file
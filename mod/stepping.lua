@@ -36,13 +36,17 @@ local string = string
 local require = require
 local print = print
 local pairs = pairs
+local next = next
 local type = type
+local pcall = pcall -- capture pcall early before entrypoints wraps it
 
 local variables = require("__debugadapter__/variables.lua")
 local normalizeLuaSource = require("__debugadapter__/normalizeLuaSource.lua")
 local json = require("__debugadapter__/json.lua")
+local loadedsources = require("__debugadapter__/loadedsources.lua")
 local datastring = require("__debugadapter__/datastring.lua")
 local ReadBreakpoints = datastring.ReadBreakpoints
+local ReadFunctionBreakpoints = datastring.ReadFunctionBreakpoints
 local remotestepping
 if script then -- don't attempt to hook in data stage
   remotestepping = require("__debugadapter__/remotestepping.lua")
@@ -54,12 +58,56 @@ local breakpoints = {}
 local stepmode = nil
 local stepdepth = 0
 
+---@type table<string,FunctionBreakpoint>
+local functionBreakpoints = {}
+-- resolved functions for `Global.name` style breakpoints
+local functionBreakpointsByFunc = setmetatable({},{__mode="k"})
+-- `__modname__/file.lua:name` style breakpoints, by normalized source then function name
+local functionBreakpointsBySource = {}
+local unresolvedFunctionBreakpoints = false
+---@type table<string,boolean>
+local eventBreakpoints = {}
+-- set when a function or event breakpoint hits on call, to stop on the first line of the function
+-- this is the event text to send to the debug adapter when it stops
+local pendingBreak = nil
+
+--- check condition and hitCondition for a breakpoint
+---@param b SourceBreakpoint | FunctionBreakpoint
+---@param frameId number
+---@return boolean
+local function isBreakpointHit(b,frameId)
+  -- one more frame for isBreakpointHit
+  frameId = frameId + 1
+  local evaluateInternal = __DebugAdapter.evaluateInternal
+  local isHit = true
+
+  if b.condition then
+    local success,conditionResult = evaluateInternal(frameId,nil,"breakpoint",b.condition)
+    if success then
+      isHit = conditionResult
+    end
+  end
+
+  -- hitCondition stops on every Nth hit, callers reset `hits` when the breakpoint hits
+  if b.hitCondition then
+    if isHit then -- only counts if condition was true
+      b.hits = (b.hits or 0) + 1
+      local success,hitResult = evaluateInternal(frameId,nil,"breakpoint",b.hitCondition)
+      if success and type(hitResult) == "number" and b.hits < hitResult then
+        isHit = false
+      end
+    end
+  end
+
+  return isHit
+end
+stepIgnore(isBreakpointHit)
+
 function __DebugAdapter.attach()
   local getinfo = debug.getinfo
   local sub = string.sub
   local format = string.format
   local debugprompt = debug.debug
-  local evaluateInternal = __DebugAdapter.evaluateInternal
   local stringInterp = __DebugAdapter.stringInterp
   debug.sethook(function(event,line)
     local ignored = stepIgnoreFuncs[getinfo(2,"f").func]
@@ -71,7 +119,18 @@ function __DebugAdapter.attach()
       if sub(s,1,1) == "@" then
         s = normalizeLuaSource(s)
         local smode = stepmode
-        if smode == "in" or smode == "next" or (smode == "over" and stepdepth<=0) then
+        if pendingBreak then
+          local reason = pendingBreak
+          pendingBreak = nil
+          if (stepmode == "over") then
+            stepmode = nil
+            stepdepth = 0
+          end
+          print("DBG: " .. reason)
+          debugprompt()
+          -- cleanup variablesReferences
+          variables.clear()
+        elseif smode == "in" or smode == "next" or (smode == "over" and stepdepth<=0) then
           stepmode = nil
           stepdepth = 0
           print(format("DBG: step %s:%d", s, line))
@@ -87,26 +146,7 @@ function __DebugAdapter.attach()
               local frameId = 3
 
               -- check b.condition and b.hitConditon
-              local isHit = true
-
-              if b.condition then
-                local success,conditionResult = evaluateInternal(frameId,nil,"breakpoint",b.condition)
-                if success then
-                  isHit = conditionResult
-                end
-              end
-
-              if b.hitCondition then
-                if isHit then -- only counts if condition was true
-                  b.hits = (b.hits or 0) + 1
-                  local success,hitResult = evaluateInternal(frameId,nil,"breakpoint",b.hitCondition)
-                  if success and type(hitResult) == "number" and b.hits < hitResult then
-                    isHit = false
-                  end
-                end
-              end
-
-              if isHit then
+              if isBreakpointHit(b,frameId) then
                 if b.logMessage then
                   -- parse and print logMessage as an expression in the scope of the breakpoint
                   local result = stringInterp(b.logMessage,frameId,nil,"logpoint")
@@ -144,6 +184,30 @@ function __DebugAdapter.attach()
           stepdepth = stepdepth + 1
         end
       end
+      if info.what == "main" then
+        -- 0 is getinfo, 1 is sethook callback, 2 is the chunk
+        loadedsources.seen(s,2)
+      end
+      if next(functionBreakpoints) then
+        local fb = functionBreakpointsByFunc[info.func]
+        if not fb then
+          local bysource = functionBreakpointsBySource[normalizeLuaSource(s)]
+          if bysource then
+            local name = getinfo(2,"n").name
+            fb = name and bysource[name]
+            if fb and not fb.verified then
+              -- the function exists, now that it has been called by this name
+              fb.verified = true
+              print("DBGfuncbps: " .. json.encode({verified = {fb.name}}))
+            end
+          end
+        end
+        -- 0 is getinfo, 1 is sethook callback, 2 is the called function
+        if fb and isBreakpointHit(fb,3) then
+          fb.hits = nil
+          pendingBreak = "function breakpoint"
+        end
+      end
       local parent = getinfo(3,"f")
       if not parent then
         if info.func == serpent.dump then
@@ -206,6 +270,10 @@ function __DebugAdapter.attach()
         if info.what == "main" or info.what == "Lua" then
           __DebugAdapter.popEntryPointName()
         end
+        -- globals named by function breakpoints may have been defined by this chunk
+        if info.what == "main" and unresolvedFunctionBreakpoints then
+          __DebugAdapter.resolveFunctionBreakpoints()
+        end
       end
     end
   end,"clr")
@@ -229,6 +297,71 @@ function __DebugAdapter.setBreakpoints(source,breaks)
   end
 end
 
+--- look up a function by a path of names from the global table
+---@param name string
+---@return function | nil
+local function findFunction(name)
+  local value = _ENV
+  for part in name:gmatch("[^%.:]+") do
+    if type(value) ~= "table" then return nil end
+    -- this might be a LuaObject and throw on bad lookups...
+    local success,result = pcall(function() return value[part] end)
+    if not success then return nil end
+    value = result
+  end
+  if type(value) == "function" then
+    return value
+  end
+end
+stepIgnore(findFunction)
+
+--- Attempt to locate functions for any unresolved function breakpoints, and
+--- report newly resolved ones to the debug adapter.
+function __DebugAdapter.resolveFunctionBreakpoints()
+  local verified = {}
+  unresolvedFunctionBreakpoints = false
+  for name,bp in pairs(functionBreakpoints) do
+    if not bp.resolved then
+      local f = findFunction(name)
+      if f then
+        bp.resolved = true
+        functionBreakpointsByFunc[f] = bp
+        verified[#verified+1] = name
+      else
+        unresolvedFunctionBreakpoints = true
+      end
+    end
+  end
+  if verified[1] then
+    print("DBGfuncbps: " .. json.encode({verified = verified}))
+  end
+end
+
+---@param breaks FunctionBreakpoint[]
+function __DebugAdapter.setFunctionBreakpoints(breaks)
+  functionBreakpoints = {}
+  functionBreakpointsByFunc = setmetatable({},{__mode="k"})
+  functionBreakpointsBySource = {}
+  unresolvedFunctionBreakpoints = false
+  for _,bp in pairs(breaks) do
+    local source,fname = bp.name:match("^(__.-__/.+):([%a_][%w_]*)$")
+    if source then
+      -- qualified names are matched by source and call name, no need to resolve them,
+      -- and are verified the first time they're called
+      source = "@" .. source
+      local bysource = functionBreakpointsBySource[source]
+      if not bysource then
+        bysource = {}
+        functionBreakpointsBySource[source] = bysource
+      end
+      bysource[fname] = bp
+      bp.resolved = true
+    end
+    functionBreakpoints[bp.name] = bp
+  end
+  __DebugAdapter.resolveFunctionBreakpoints()
+end
+
 local function isMainChunk()
   local i = 2 -- no need to check getinfo or isMainChunk
   local what
@@ -259,6 +392,63 @@ function __DebugAdapter.updateBreakpoints(change)
   end
 end
 
+---@param events string comma separated list of event names
+function __DebugAdapter.setEventBreakpoints(events)
+  eventBreakpoints = {}
+  for name in events:gmatch("[^,]+") do
+    eventBreakpoints[name] = true
+  end
+end
+
+---@param change string
+function __DebugAdapter.updateEventBreakpoints(change)
+  -- pass it around to everyone if possible, else just set it here...
+  if game or script and not isMainChunk() then
+    remote.call("debugadapter", "updateEventBreakpoints", change)
+  else
+    __DebugAdapter.setEventBreakpoints(change)
+  end
+end
+
+--- Called by event handler wrappers before running a handler, to break on its first line
+--- if there is a breakpoint set on this event.
+---@param eventname string
+function __DebugAdapter.eventBreakpoint(eventname)
+  if eventBreakpoints[eventname] then
+    pendingBreak = "event breakpoint " .. eventname
+  end
+end
+
+--- Set or clear a pending pause in this mod. The next hooked line will break.
+---@param pause boolean
+function __DebugAdapter.setPause(pause)
+  if pause then
+    pendingBreak = "pause"
+  elseif pendingBreak == "pause" then
+    pendingBreak = nil
+  end
+end
+
+---@param pause boolean
+function __DebugAdapter.pause(pause)
+  -- pass it around to everyone if possible, else just set it here...
+  if game or script and not isMainChunk() then
+    remote.call("debugadapter", "pause", pause)
+  else
+    __DebugAdapter.setPause(pause)
+  end
+end
+
+---@param change string
+function __DebugAdapter.updateFunctionBreakpoints(change)
+  -- pass it around to everyone if possible, else just set it here...
+  if game or script and not isMainChunk() then
+    remote.call("debugadapter", "updateFunctionBreakpoints", change)
+  else
+    __DebugAdapter.setFunctionBreakpoints(ReadFunctionBreakpoints(change))
+  end
+end
+
 ---@param source string
 ---@return Breakpoint[] | Breakpoint
 function __DebugAdapter.dumpBreakpoints(source)
@@ -293,6 +483,8 @@ local vmeta = {
   __debugline = "<Debug Adapter Stepping Module>",
   __debugchildren = function(t) return {
     vcreate("<breakpoints>",breakpoints),
+    vcreate("<functionBreakpoints>",functionBreakpoints),
+    vcreate("<eventBreakpoints>",eventBreakpoints),
     vcreate("<stepmode>",stepmode),
     vcreate("<stepdepth>",stepdepth),
   } end,
@@ -13,6 +13,11 @@
 ---@field public hitCondition string | nil
 ---@field public logMessage string | nil
 
+---@class FunctionBreakpoint
+---@field public name string
+---@field public condition string | nil
+---@field public hitCondition string | nil
+
 ---@class Source
 ---@field public name string | nil
 ---@field public path string | nil
@@ -46,3 +51,7 @@
 ---@field public kind string | nil
 ---@field public attributes string[] | nil
 ---@field public visibility string | nil
+
+---@class CompletionItem
+---@field public label string
+---@field public type string | nil
@@ -0,0 +1,130 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Launch options for running a benchmark instead of debugging.
+ */
+export interface BenchmarkOptions {
+	save: string // by path, or by name in the `saves` directory
+	ticks?: number
+	runs?: number
+	resultsPath?: string // directory to store results in, defaults to `.benchmarks` in the workspace
+	compareWith?: string // earlier results file to show alongside these
+}
+
+export interface BenchmarkRun {
+	updates: number
+	totalMs: number
+	avgMs: number
+	minMs: number
+	maxMs: number
+}
+
+export interface BenchmarkResult {
+	save: string
+	date: string
+	factorioVersion?: string
+	runs: BenchmarkRun[]
+	tickMs: number[] // time of each update, from `--benchmark-verbose wholeUpdate`
+}
+
+/**
+ * Collects results from the output of `factorio --benchmark`:
+ * ```
+ * tick,timestamp,wholeUpdate
+ * t0,2471053100,2311800
+ * Performed 1000 updates in 2311.800 ms
+ * avg: 2.312 ms, min: 1.843 ms, max: 8.733 ms
+ * ```
+ */
+export class BenchmarkParser {
+	public readonly runs = new Array<BenchmarkRun>();
+	public readonly tickMs = new Array<number>();
+	private wholeUpdateColumn?: number;
+	private performed?: { updates:number; totalMs:number };
+
+	/**
+	 * @returns true if the line was per-tick data, which is too verbose to pass on as output
+	 */
+	public line(line:string): boolean
+	{
+		if (line.startsWith("tick,"))
+		{
+			this.wholeUpdateColumn = line.split(",").indexOf("wholeUpdate");
+			return true;
+		}
+		if (line.match(/^t\d+,/))
+		{
+			if (this.wholeUpdateColumn !== undefined && this.wholeUpdateColumn >= 0)
+			{
+				// verbose timings are in nanoseconds
+				this.tickMs.push(Number(line.split(",")[this.wholeUpdateColumn]) / 1e6);
+			}
+			return true;
+		}
+
+		const performed = line.match(/Performed (\d+) updates in ([\d.]+) ms/);
+		if (performed)
+		{
+			if (this.performed) { this.finishRun(); }
+			this.performed = { updates: Number(performed[1]), totalMs: Number(performed[2]) };
+			return false;
+		}
+		const stats = line.match(/avg: ([\d.]+) ms, min: ([\d.]+) ms, max: ([\d.]+) ms/);
+		if (stats && this.performed)
+		{
+			this.runs.push({
+				updates: this.performed.updates,
+				totalMs: this.performed.totalMs,
+				avgMs: Number(stats[1]),
+				minMs: Number(stats[2]),
+				maxMs: Number(stats[3]),
+			});
+			this.performed = undefined;
+		}
+		return false;
+	}
+
+	// a run with no stats line, from older versions
+	private finishRun()
+	{
+		const avgMs = this.performed!.totalMs / this.performed!.updates;
+		this.runs.push(Object.assign({ avgMs: avgMs, minMs: avgMs, maxMs: avgMs }, this.performed!));
+		this.performed = undefined;
+	}
+
+	public result(save:string, factorioVersion?:string): BenchmarkResult
+	{
+		if (this.performed) { this.finishRun(); }
+		return {
+			save: save,
+			date: new Date().toISOString(),
+			factorioVersion: factorioVersion,
+			runs: this.runs,
+			tickMs: this.tickMs,
+		};
+	}
+}
+
+/**
+ * UPS across all runs of a benchmark. The slowest update gives the minimum UPS.
+ */
+export function benchmarkUPS(result:BenchmarkResult): { min:number; avg:number; max:number }
+{
+	const updates = result.runs.reduce((sum,run)=>sum + run.updates, 0);
+	const totalMs = result.runs.reduce((sum,run)=>sum + run.totalMs, 0);
+	return {
+		min: 1000 / Math.max(...result.runs.map(run=>run.maxMs)),
+		avg: 1000 * updates / totalMs,
+		max: 1000 / Math.min(...result.runs.map(run=>run.minMs)),
+	};
+}
+
+export function saveBenchmarkResult(result:BenchmarkResult, resultsPath:string): string
+{
+	fs.mkdirSync(resultsPath, { recursive: true });
+	const name = `${path.basename(result.save, ".zip")}-${result.date.replace(/[:.]/g, "-")}.json`;
+	const filepath = path.join(resultsPath, name);
+	fs.writeFileSync(filepath, JSON.stringify(result, undefined, 2), "utf8");
+	return filepath;
+}
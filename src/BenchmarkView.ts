@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BenchmarkResult, benchmarkUPS } from './Benchmark';
+
+function escapeHtml(text:string)
+{
+	return text.replace(/&/g,"&amp;").replace(/</g,"&lt;").replace(/>/g,"&gt;");
+}
+
+/**
+ * Show benchmark results side by side, with each compared to the first.
+ */
+export function showBenchmarkResults(results:{ label:string; result:BenchmarkResult }[])
+{
+	const panel = vscode.window.createWebviewPanel("factorio.benchmark", "Factorio Benchmark", vscode.ViewColumn.Active, {});
+	const base = benchmarkUPS(results[0].result);
+	const cell = (value:number, baseline:number, first:boolean)=>{
+		if (first) { return `<td>${value.toFixed(1)}</td>`; }
+		const change = (value - baseline) / baseline * 100;
+		return `<td>${value.toFixed(1)} (${change >= 0 ? "+" : ""}${change.toFixed(1)}%)</td>`;
+	};
+	const rows = results.map((r,i)=>{
+		const ups = benchmarkUPS(r.result);
+		return `<tr><th>${escapeHtml(r.label)}</th>` +
+			`<td>${escapeHtml(path.basename(r.result.save))}</td>` +
+			`<td>${escapeHtml(r.result.factorioVersion ?? "")}</td>` +
+			`<td>${r.result.runs.length} × ${r.result.runs[0]?.updates ?? 0}</td>` +
+			cell(ups.min, base.min, i === 0) +
+			cell(ups.avg, base.avg, i === 0) +
+			cell(ups.max, base.max, i === 0) +
+			`</tr>`;
+	});
+	panel.webview.html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<style>
+	table { border-collapse: collapse; }
+	th, td { padding: 2px 12px; text-align: right; }
+	th:first-child, td:nth-child(2) { text-align: left; }
+</style>
+</head>
+<body>
+<table>
+<tr><th></th><th>Save</th><th>Version</th><th>Runs × Ticks</th><th>Min UPS</th><th>Avg UPS</th><th>Max UPS</th></tr>
+${rows.join("\n")}
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * Pick two or more stored results and show them side by side.
+ */
+export async function compareBenchmarks()
+{
+	const picked = await vscode.window.showOpenDialog({
+		canSelectMany: true,
+		openLabel: "Compare",
+		filters: { "Benchmark Results": ["json"] },
+		defaultUri: vscode.workspace.workspaceFolders?.[0] && vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, ".benchmarks"),
+	});
+	if (!picked) { return; }
+	try
+	{
+		showBenchmarkResults(picked.map(uri=>{
+			return { label: path.basename(uri.fsPath, ".json"), result: JSON.parse(fs.readFileSync(uri.fsPath, "utf8")) };
+		}));
+	}
+	catch (ex)
+	{
+		vscode.window.showErrorMessage(`Unable to read benchmark results: ${ex.message}`);
+	}
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { ModListSnapshots } from './ModListSnapshots';
+import { BenchmarkResult, benchmarkUPS } from './Benchmark';
+
+/**
+ * Where log lines about the session go, like an `OutputChannel`.
+ */
+export interface DebugOutput {
+	append(text:string): void
+	appendLine(line:string): void
+	show(preserveFocus?:boolean): void
+}
+
+/**
+ * A Lua error from Factorio's output, to be shown as a problem in `uri`.
+ */
+export interface LuaErrorProblem {
+	line: number
+	message: string
+	// frames of the stack traceback that were found in source
+	traceback: { uri:string; line:number; text:string }[]
+}
+
+/**
+ * Display of profile dumps from a session in `hookMode` "profile".
+ */
+export interface ProfileView {
+	parse(profile:string): void
+	dispose(): void
+}
+
+/**
+ * Everything the debug adapter needs from the editor it runs in. The runtime
+ * only talks to VS Code through this, so it can also run as a standalone
+ * process, for other clients and for tests.
+ */
+export interface DebugHost {
+	readonly output: DebugOutput
+	// location of the extension, for the bundled mod package
+	readonly extensionPath?: string
+	// first workspace folder, for workspace-relative defaults
+	readonly workspacePath?: string
+	// set when mod-list.json can be snapshotted before a session changes it
+	readonly modListSnapshots?: ModListSnapshots
+
+	/**
+	 * Ask the user something, or just tell them if no `choices` are given.
+	 * @returns the choice made, or undefined if there was none or no one to ask
+	 */
+	showMessage(severity:"information"|"warning"|"error", message:string, ...choices:string[]): Promise<string|undefined>
+
+	/**
+	 * @returns URIs of the files in the workspace matching `glob`
+	 */
+	findWorkspaceFiles(glob:string): Promise<string[]>
+
+	/**
+	 * @returns the kind of thing at `uri`, or undefined if there is nothing there
+	 */
+	stat(uri:string): Promise<"file"|"directory"|undefined>
+	readFile(uri:string): Promise<Buffer>
+
+	// run the workspace's `factorio` tasks with `command: compile`
+	runCompileTasks(): Promise<void>
+
+	// shows mod zips as folders, if the editor has a way to
+	readonly zipExplorer?: { clear():void; explore(uri:string):void }
+
+	clearLuaErrors(): void
+	setLuaErrors(uri:string, problems:LuaErrorProblem[]): void
+
+	/**
+	 * @param clientPathToDebugger translates editor URIs to the names the mod uses
+	 * @returns undefined if profiles can't be displayed here
+	 */
+	createProfileView(clientPathToDebugger:(uri:string)=>string): ProfileView|undefined
+
+	showBenchmarkResults(results:{ label:string; result:BenchmarkResult }[]): void
+
+	/**
+	 * Merge `adjust` into the `adjustMods` of the named launch configuration.
+	 * @returns false if the configuration wasn't found
+	 */
+	saveAdjustMods(configurationName:string, adjust:{[key:string]:boolean|string}): Promise<boolean>
+}
+
+/**
+ * Host for running the debug adapter in its own process, with no editor.
+ * Output goes to stderr, and questions are answered as if dismissed.
+ */
+export class StandaloneDebugHost implements DebugHost {
+	public readonly output: DebugOutput = {
+		append: text=>process.stderr.write(text),
+		appendLine: line=>process.stderr.write(`${line}\n`),
+		show: ()=>{},
+	};
+
+	/**
+	 * @param extensionPath where to find `modpackage`, if not next to `out`
+	 */
+	constructor(public readonly extensionPath = path.resolve(__dirname, "..")) {}
+
+	public async showMessage(severity:"information"|"warning"|"error", message:string, ...choices:string[])
+	{
+		this.output.appendLine(`${severity}: ${message}`);
+		return undefined;
+	}
+
+	public async findWorkspaceFiles(glob:string): Promise<string[]>
+	{
+		return [];
+	}
+
+	public async stat(uri:string): Promise<"file"|"directory"|undefined>
+	{
+		try
+		{
+			const stat = await fs.promises.stat(URI.parse(uri).fsPath);
+			return stat.isDirectory() ? "directory" : "file";
+		}
+		catch (ex)
+		{
+			if (ex.code === "ENOENT") { return undefined; }
+			throw ex;
+		}
+	}
+
+	public async readFile(uri:string): Promise<Buffer>
+	{
+		return fs.promises.readFile(URI.parse(uri).fsPath);
+	}
+
+	public async runCompileTasks() {}
+
+	public clearLuaErrors() {}
+	public setLuaErrors(uri:string, problems:LuaErrorProblem[]) {}
+
+	public createProfileView()
+	{
+		return undefined;
+	}
+
+	public showBenchmarkResults(results:{ label:string; result:BenchmarkResult }[])
+	{
+		results.forEach(r=>{
+			const ups = benchmarkUPS(r.result);
+			this.output.appendLine(`${r.label}: ${ups.min.toFixed(1)} min, ${ups.avg.toFixed(1)} avg, ${ups.max.toFixed(1)} max UPS`);
+		});
+	}
+
+	public async saveAdjustMods(configurationName:string, adjust:{[key:string]:boolean|string})
+	{
+		return false;
+	}
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { FactorioVersion, FactorioVersionCache } from './FactorioVersion';
+
+/**
+ * An entry in `factorio.installs`. `path` may be the binary or the folder the game was extracted to.
+ */
+interface ConfiguredInstall {
+	name?: string
+	path: string
+}
+
+export interface FactorioInstall {
+	name: string
+	factorioPath: string
+	version?: FactorioVersion
+	discovered: boolean // found automatically rather than configured
+}
+
+/**
+ * Find the binary inside a Factorio install folder, or return `installPath` if it is already the binary.
+ */
+function findBinary(installPath:string): string|undefined
+{
+	if (!fs.existsSync(installPath)) { return undefined; }
+	if (!fs.statSync(installPath).isDirectory()) { return installPath; }
+	return [
+		"bin/x64/factorio.exe",
+		"bin/x64/factorio",
+		"Contents/MacOS/factorio",
+		"factorio.app/Contents/MacOS/factorio",
+	].map(bin=>path.resolve(installPath, bin)).find(bin=>fs.existsSync(bin));
+}
+
+/**
+ * Find Factorio in each Steam library on Linux, from `libraryfolders.vdf`.
+ */
+function findSteamInstalls(): string[]
+{
+	if (os.platform() !== "linux") { return []; }
+	const libraries = new Set<string>();
+	[".steam/steam", ".local/share/Steam"].forEach(root=>{
+		const steam = path.resolve(os.homedir(), root);
+		if (!fs.existsSync(steam)) { return; }
+		libraries.add(fs.realpathSync(steam));
+		const vdfpath = path.resolve(steam, "steamapps/libraryfolders.vdf");
+		if (!fs.existsSync(vdfpath)) { return; }
+		// old format is `"1" "/path"`, new format has `"path" "/path"` inside a block per library
+		const vdf = fs.readFileSync(vdfpath, "utf8");
+		const pattern = /"(?:\d+|path)"\s+"(\/[^"]+)"/g;
+		let matches:RegExpExecArray|null;
+		while ((matches = pattern.exec(vdf)) !== null)
+		{
+			if (fs.existsSync(matches[1])) { libraries.add(fs.realpathSync(matches[1])); }
+		}
+	});
+	return Array.from(libraries)
+		.map(library=>path.resolve(library, "steamapps/common/Factorio/bin/x64/factorio"))
+		.filter(bin=>fs.existsSync(bin));
+}
+
+/**
+ * Installs configured in `factorio.installs` plus any found in Steam libraries, with their versions.
+ */
+export class FactorioInstalls {
+	constructor(private readonly versions: FactorioVersionCache) {}
+
+	private async describe(factorioPath:string, name:string|undefined, discovered:boolean): Promise<FactorioInstall>
+	{
+		// data is beside bin/, or beside MacOS/ in an app bundle
+		const dataPath = os.platform() === "darwin" ?
+			path.resolve(path.dirname(factorioPath), "../data") :
+			path.resolve(path.dirname(factorioPath), "../../data");
+		const version = await this.versions.get(factorioPath, dataPath);
+		if (!name)
+		{
+			if (version)
+			{
+				const [major,minor] = version.version.split(".");
+				name = `${major}.${minor}${version.edition ? `-${version.edition}` : discovered ? "-steam" : ""}`;
+			}
+			else
+			{
+				name = factorioPath;
+			}
+		}
+		return { name: name, factorioPath: factorioPath, version: version, discovered: discovered };
+	}
+
+	public async list(): Promise<FactorioInstall[]>
+	{
+		const configured = vscode.workspace.getConfiguration().get<ConfiguredInstall[]>("factorio.installs", []);
+		const installs = new Array<FactorioInstall>();
+		for (const entry of configured)
+		{
+			const bin = findBinary(entry.path);
+			if (bin) { installs.push(await this.describe(bin, entry.name, false)); }
+		}
+		for (const bin of findSteamInstalls())
+		{
+			if (!installs.find(install=>install.factorioPath === bin))
+			{
+				installs.push(await this.describe(bin, undefined, true));
+			}
+		}
+		return installs;
+	}
+
+	public async find(name:string): Promise<FactorioInstall|undefined>
+	{
+		return (await this.list()).find(install=>install.name === name);
+	}
+
+	/**
+	 * Ask for a Factorio binary and add it to `factorio.installs`.
+	 */
+	public async add(): Promise<FactorioInstall|undefined>
+	{
+		const picked = await vscode.window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: true,
+			openLabel: "Select Factorio binary or install folder",
+			filters: {
+				"": ["exe", ""]
+			}
+		});
+		if (!picked) { return undefined; }
+		const bin = findBinary(picked[0].fsPath);
+		if (!bin)
+		{
+			vscode.window.showErrorMessage(`No Factorio binary found in ${picked[0].fsPath}`);
+			return undefined;
+		}
+		const install = await this.describe(bin, undefined, false);
+		const config = vscode.workspace.getConfiguration();
+		const configured = config.get<ConfiguredInstall[]>("factorio.installs", []);
+		if (!configured.find(entry=>findBinary(entry.path) === bin))
+		{
+			const entry:ConfiguredInstall = { name: install.name, path: bin };
+			await config.update("factorio.installs", configured.concat(entry), vscode.ConfigurationTarget.Global);
+		}
+		return install;
+	}
+
+	/**
+	 * Choose an install from the registry, or add a new one.
+	 * @returns path of the selected binary
+	 */
+	public async pick(): Promise<string|undefined>
+	{
+		const installs = await this.list();
+		const browse:vscode.QuickPickItem = { label: "$(folder-opened) Add installation..." };
+		const picked = await vscode.window.showQuickPick(
+			installs.map((install):vscode.QuickPickItem=>{
+				return {
+					label: install.name,
+					description: install.version ?
+						`${install.version.version}${install.version.edition ? ` ${install.version.edition}` : ""}${install.discovered ? " (Steam)" : ""}` :
+						"unknown version",
+					detail: install.factorioPath,
+				};
+			}).concat(browse),
+			{ placeHolder: "Select Factorio installation" });
+		if (!picked) { return undefined; }
+		if (picked === browse)
+		{
+			return (await this.add())?.factorioPath;
+		}
+		return picked.detail;
+	}
+}
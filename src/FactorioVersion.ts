@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+
+export interface FactorioVersion {
+	version: string
+	build?: number
+	platform?: string // e.g. "win64", "linux64"
+	edition?: string // e.g. "steam", "headless", "expansion"
+	source: "--version"|"info.json"
+}
+
+interface CachedVersion {
+	mtime: number // of the binary, so an updated install is detected again
+	version: FactorioVersion
+}
+
+/**
+ * Compare two Factorio version strings, ignoring any parts past the first three.
+ * @returns negative if `a` is older than `b`, positive if newer, 0 if the same
+ */
+export function compareFactorioVersions(a:string, b:string): number
+{
+	const pa = a.split(".").map(Number);
+	const pb = b.split(".").map(Number);
+	for (let i = 0; i < 3; i++)
+	{
+		const diff = (pa[i] || 0) - (pb[i] || 0);
+		if (diff !== 0) { return diff; }
+	}
+	return 0;
+}
+
+/**
+ * Parse the first line of `factorio --version`, e.g. `Version: 1.0.0 (build 54889, win64, steam)`
+ */
+export function parseVersionOutput(output:string): FactorioVersion|undefined
+{
+	const matches = output.match(/Version: (\d+\.\d+\.\d+) \(build (\d+), ([^,]+), ([^)]+)\)/);
+	if (!matches) { return undefined; }
+	return {
+		version: matches[1],
+		build: Number(matches[2]),
+		platform: matches[3],
+		edition: matches[4],
+		source: "--version",
+	};
+}
+
+function runVersion(factorioPath:string): Promise<FactorioVersion|undefined>
+{
+	return new Promise(resolve=>{
+		execFile(factorioPath, ["--version"], { cwd: path.dirname(factorioPath), timeout: 10000 }, (error, stdout)=>{
+			resolve(error ? undefined : parseVersionOutput(stdout));
+		});
+	});
+}
+
+function readBaseInfo(dataPath:string): FactorioVersion|undefined
+{
+	try
+	{
+		const info = JSON.parse(fs.readFileSync(path.resolve(dataPath, "./base/info.json"), "utf8"));
+		return { version: info.version, source: "info.json" };
+	}
+	catch (ex)
+	{
+		return undefined;
+	}
+}
+
+/**
+ * Detects the version of Factorio binaries, remembering the result for each binary until it changes.
+ */
+export class FactorioVersionCache {
+	constructor(private readonly memento:vscode.Memento) {}
+
+	private static key(factorioPath:string)
+	{
+		return `factorioVersion:${path.resolve(factorioPath)}`;
+	}
+
+	public async get(factorioPath:string, dataPath?:string): Promise<FactorioVersion|undefined>
+	{
+		let mtime:number;
+		try
+		{
+			mtime = fs.statSync(factorioPath).mtimeMs;
+		}
+		catch (ex)
+		{
+			return undefined;
+		}
+		const key = FactorioVersionCache.key(factorioPath);
+		const cached = this.memento.get<CachedVersion>(key);
+		if (cached && cached.mtime === mtime)
+		{
+			return cached.version;
+		}
+
+		// running a Steam build outside of Steam may restart it through Steam, so just look at the data for those
+		const dir = path.dirname(factorioPath);
+		const steam = ["steam_api64.dll","steam_api.dylib","steam_api.so"].some(lib=>fs.existsSync(path.resolve(dir, lib)));
+		let version = steam ? undefined : await runVersion(factorioPath);
+		if (!version && dataPath)
+		{
+			version = readBaseInfo(dataPath);
+		}
+		if (version)
+		{
+			const entry:CachedVersion = { mtime: mtime, version: version };
+			await this.memento.update(key, entry);
+		}
+		return version;
+	}
+}
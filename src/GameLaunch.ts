@@ -0,0 +1,147 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { LaunchOptionsError, removeDir, resolveSave, writeValidated } from './ServerLaunch';
+
+/**
+ * Launch options for what to load in singleplayer. At most one may be used.
+ */
+export interface GameOptions {
+	loadSave?: string // by path, or by name in the `saves` directory
+	loadLatest?: boolean
+	loadScenario?: string // `mod/scenario`, or just `scenario` for one in the user's `scenarios` directory
+	createMap?: {
+		save?: string // name to save the new map as in the `saves` directory, otherwise a temporary file
+		mapGenSettings?: object
+		mapSettings?: object
+		seed?: number
+	}
+}
+
+export interface GameArguments {
+	args: string[] // to add to factorioArgs
+	createMap?: string[] // arguments for a separate run of Factorio to create the map before launching
+	tempDir?: string // holds the generated map and settings, to be removed when the session ends
+}
+
+export interface SaveFile {
+	name: string
+	path: string
+	mtime: Date
+}
+
+/**
+ * Saves in `savesPath`, newest first.
+ */
+export function listSaves(savesPath:string): SaveFile[]
+{
+	if (!fs.existsSync(savesPath)) { return []; }
+	return fs.readdirSync(savesPath)
+		.filter(file=>file.endsWith(".zip"))
+		.map(file=>{
+			const savepath = path.resolve(savesPath, file);
+			return { name: file.replace(/\.zip$/,""), path: savepath, mtime: fs.statSync(savepath).mtime };
+		})
+		.sort((a,b)=>b.mtime.getTime() - a.mtime.getTime());
+}
+
+/**
+ * Check that a scenario exists, where it's possible to tell without opening zips.
+ * @returns the scenario name to pass to `--load-scenario`
+ */
+function resolveScenario(scenario:string, dataPath:string, modsPath:string): string
+{
+	const qualified = scenario.match(/^([^\/]+)\/(.+)$/);
+	if (!qualified)
+	{
+		if (!fs.existsSync(path.resolve(modsPath, "../scenarios", scenario)))
+		{
+			throw new LaunchOptionsError(`Scenario "${scenario}" not found in scenarios, use "mod/scenario" for scenarios in mods`);
+		}
+		return scenario;
+	}
+	const [,mod,name] = qualified;
+	const modDirs = [path.resolve(dataPath, mod)];
+	if (fs.existsSync(modsPath))
+	{
+		fs.readdirSync(modsPath)
+			.filter(dir=>dir === mod || (dir.startsWith(`${mod}_`) && !!dir.substr(mod.length + 1).match(/^\d+\.\d+\.\d+$/)))
+			.forEach(dir=>modDirs.push(path.resolve(modsPath, dir)));
+	}
+	const found = modDirs.filter(dir=>fs.existsSync(dir) && fs.statSync(dir).isDirectory());
+	if (found.length > 0 && !found.some(dir=>fs.existsSync(path.resolve(dir, "scenarios", name))))
+	{
+		throw new LaunchOptionsError(`Scenario "${name}" not found in mod ${mod}`);
+	}
+	return scenario;
+}
+
+/**
+ * Build the Factorio arguments for `options`.
+ * @param savesPath `saves` directory in write-data
+ * @param schemaDir location of the bundled JSON schemas, to check generated settings against
+ */
+export function gameArguments(options:GameOptions, savesPath:string, dataPath:string, modsPath:string, schemaDir:string): GameArguments
+{
+	const chosen = (<(keyof GameOptions)[]>["loadSave","loadLatest","loadScenario","createMap"]).filter(option=>options[option]);
+	if (chosen.length > 1)
+	{
+		throw new LaunchOptionsError(`Only one of ${chosen.join(", ")} may be used`);
+	}
+
+	if (options.loadSave)
+	{
+		return { args: ["--load-game", resolveSave(options.loadSave, savesPath)] };
+	}
+	if (options.loadLatest)
+	{
+		const latest = listSaves(savesPath)[0];
+		if (!latest)
+		{
+			throw new LaunchOptionsError(`No saves found in ${savesPath}`);
+		}
+		return { args: ["--load-game", latest.path] };
+	}
+	if (options.loadScenario)
+	{
+		return { args: ["--load-scenario", resolveScenario(options.loadScenario, dataPath, modsPath)] };
+	}
+	if (options.createMap)
+	{
+		const map = options.createMap;
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "factorio-map-"));
+		try
+		{
+			let savepath = path.join(dir, "map.zip");
+			if (map.save)
+			{
+				fs.mkdirSync(savesPath, { recursive: true });
+				savepath = path.resolve(savesPath, `${map.save}.zip`);
+			}
+			const create = ["--create", savepath];
+			if (map.mapGenSettings)
+			{
+				const mapgenpath = path.join(dir, "map-gen-settings.json");
+				writeValidated(map.mapGenSettings, schemaDir, "mapgen.json", mapgenpath);
+				create.push("--map-gen-settings", mapgenpath);
+			}
+			if (map.mapSettings)
+			{
+				const mapsettingspath = path.join(dir, "map-settings.json");
+				writeValidated(map.mapSettings, schemaDir, "mapsettings.json", mapsettingspath);
+				create.push("--map-settings", mapsettingspath);
+			}
+			if (map.seed !== undefined)
+			{
+				create.push("--map-gen-seed", map.seed.toString());
+			}
+			return { args: ["--load-game", savepath], createMap: create, tempDir: dir };
+		}
+		catch (ex)
+		{
+			removeDir(dir);
+			throw ex;
+		}
+	}
+	return { args: [] };
+}
@@ -0,0 +1,94 @@
+/**
+ * The parts of JSON Schema used by the bundled schemas.
+ */
+export interface JsonSchema {
+	type?: string|string[]
+	enum?: unknown[]
+	properties?: {[name:string]:JsonSchema}
+	additionalProperties?: JsonSchema|boolean
+	required?: string[]
+	items?: JsonSchema
+	oneOf?: JsonSchema[]
+	minimum?: number
+	maximum?: number
+	pattern?: string
+}
+
+function typeOf(value:unknown): string
+{
+	if (value === null) { return "null"; }
+	if (Array.isArray(value)) { return "array"; }
+	return typeof value;
+}
+
+function matchesType(value:unknown, type:string): boolean
+{
+	if (type === "integer") { return typeof value === "number" && Number.isInteger(value); }
+	return typeOf(value) === type;
+}
+
+/**
+ * Check `value` against `schema`.
+ * @returns a message for each problem found, prefixed with the path to the bad value
+ */
+export function validateJson(value:unknown, schema:JsonSchema, at:string = "$"): string[]
+{
+	const errors = new Array<string>();
+
+	if (schema.type)
+	{
+		const types = typeof schema.type === "string" ? [schema.type] : schema.type;
+		if (!types.some(type=>matchesType(value, type)))
+		{
+			return [`${at}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+		}
+	}
+	if (schema.enum && !schema.enum.includes(value))
+	{
+		errors.push(`${at}: must be one of ${schema.enum.map(e=>JSON.stringify(e)).join(", ")}`);
+	}
+	if (schema.oneOf)
+	{
+		const matching = schema.oneOf.filter(option=>validateJson(value, option, at).length === 0).length;
+		if (matching !== 1)
+		{
+			errors.push(`${at}: must match exactly one of ${schema.oneOf.length} alternatives, matched ${matching}`);
+		}
+	}
+	if (typeof value === "number")
+	{
+		if (schema.minimum !== undefined && value < schema.minimum) { errors.push(`${at}: must be >= ${schema.minimum}`); }
+		if (schema.maximum !== undefined && value > schema.maximum) { errors.push(`${at}: must be <= ${schema.maximum}`); }
+	}
+	if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value))
+	{
+		errors.push(`${at}: must match ${schema.pattern}`);
+	}
+	if (Array.isArray(value) && schema.items)
+	{
+		const items = schema.items;
+		value.forEach((item,i)=>errors.push(...validateJson(item, items, `${at}[${i}]`)));
+	}
+	if (typeOf(value) === "object")
+	{
+		const object = <{[name:string]:unknown}>value;
+		(schema.required ?? []).forEach(name=>{
+			if (!(name in object)) { errors.push(`${at}: missing required property "${name}"`); }
+		});
+		for (const name in object) {
+			if (object.hasOwnProperty(name))
+			{
+				const property = schema.properties?.[name] ?? schema.additionalProperties;
+				if (property === false)
+				{
+					errors.push(`${at}: unexpected property "${name}"`);
+				}
+				else if (property && property !== true)
+				{
+					errors.push(...validateJson(object[name], property, `${at}.${name}`));
+				}
+			}
+		}
+	}
+	return errors;
+}
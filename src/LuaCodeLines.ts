@@ -0,0 +1,144 @@
+// tokens that end a block or expression without producing any instructions of their own.
+// `end` is one, except when it closes a function, which returns on that line, and `}`
+// never is, because a list constructor sets its items on that line
+const noCodeWords = new Set(["end", "else"]);
+const noCodePunctuation = new Set([")", "]", ";", ","]);
+
+/**
+ * Find the lines of a Lua source file which have something other than whitespace,
+ * comments and closing tokens like `else` or the `end` of a loop on them, which are
+ * the only lines a breakpoint can ever hit on. Lines inside a multi-line string are
+ * not counted, only the line it starts on.
+ */
+export function codeLines(source:string):Set<number>
+{
+	const lines = new Set<number>();
+	const longBracket = /\[(=*)\[/y;
+	const word = /[A-Za-z_][A-Za-z0-9_]*/y;
+	let line = 1;
+	let i = 0;
+	// blocks open at `i`, to tell which ones an `end` closes. loops are
+	// marked until the `do` that starts their body
+	const blocks = new Array<"function"|"loop"|"loopbody"|"block">();
+
+	// skip a long bracket body starting at `start`, returns the index after the closing bracket
+	const skipLong = (start:number, level:string)=>{
+		const close = `]${level}]`;
+		let end = source.indexOf(close, start);
+		if (end === -1) { end = source.length; }
+		for (let j = start; j < end; j++)
+		{
+			if (source[j] === "\n") { line++; }
+		}
+		return end + close.length;
+	};
+
+	if (source.startsWith("#"))
+	{
+		// shebang line is skipped by the loader
+		i = source.indexOf("\n");
+		if (i === -1) { return lines; }
+	}
+
+	while (i < source.length)
+	{
+		const c = source[i];
+		if (c === "\n")
+		{
+			line++;
+			i++;
+		}
+		else if (c === " " || c === "\t" || c === "\r" || c === "\f" || c === "\v")
+		{
+			i++;
+		}
+		else if (source.startsWith("--", i))
+		{
+			longBracket.lastIndex = i + 2;
+			const long = longBracket.exec(source);
+			if (long)
+			{
+				i = skipLong(longBracket.lastIndex, long[1]);
+			}
+			else
+			{
+				const eol = source.indexOf("\n", i);
+				i = eol === -1 ? source.length : eol;
+			}
+		}
+		else if (c === "\"" || c === "'")
+		{
+			lines.add(line);
+			i++;
+			while (i < source.length && source[i] !== c && source[i] !== "\n")
+			{
+				if (source[i] === "\\")
+				{
+					// skip the escaped char, which may be a newline continuing the string
+					i++;
+					if (source[i] === "\r" && source[i+1] === "\n") { i++; }
+					if (source[i] === "\n") { line++; }
+				}
+				i++;
+			}
+			if (source[i] === c) { i++; }
+		}
+		else if (noCodePunctuation.has(c))
+		{
+			i++;
+		}
+		else if (c.match(/[A-Za-z_]/))
+		{
+			word.lastIndex = i;
+			const name = word.exec(source)![0];
+			let closed:string|undefined;
+			switch (name) {
+				case "function":
+					blocks.push("function");
+					break;
+				case "while":
+				case "for":
+					blocks.push("loop");
+					break;
+				case "do":
+					if (blocks[blocks.length-1] === "loop")
+					{
+						blocks[blocks.length-1] = "loopbody";
+					}
+					else
+					{
+						blocks.push("block");
+					}
+					break;
+				case "if":
+				case "repeat":
+					blocks.push("block");
+					break;
+				case "end":
+				case "until":
+					closed = blocks.pop();
+					break;
+			}
+			if (!noCodeWords.has(name) || closed === "function")
+			{
+				lines.add(line);
+			}
+			i += name.length;
+		}
+		else
+		{
+			lines.add(line);
+			longBracket.lastIndex = i;
+			const long = c === "[" && longBracket.exec(source);
+			if (long)
+			{
+				i = skipLong(longBracket.lastIndex, long[1]);
+			}
+			else
+			{
+				i++;
+			}
+		}
+	}
+	return lines;
+}
@@ -0,0 +1,70 @@
+/**
+ * A position in mod code, as Factorio prints it: `__modname__/path/file.lua:line`.
+ */
+export interface LuaErrorLocation {
+	modname: string
+	file: string // path within the mod
+	line: number
+}
+
+export interface LuaError extends LuaErrorLocation {
+	message: string
+	traceback: (LuaErrorLocation & { text:string })[]
+}
+
+export type LuaErrorLine =
+	{ kind: "error"; error: LuaError } |
+	{ kind: "frame"; error: LuaError; frame: LuaErrorLocation } |
+	{ kind: "traceback"; error: LuaError };
+
+// the location starts the line, or follows the text Factorio puts before a
+// mod's error: `Failed to load mods: __mymod__/data.lua:3: attempt to index nil`,
+// `Error while running event mymod::on_tick (ID 0) __mymod__/control.lua:5: ...`
+const errorPattern = /^(?:.*?(?:Failed to load mods:|Error while running .*?)\s*)?@?__([^\/\s]+?)__\/([^:\s]+\.lua):(\d+): (.*)$/;
+// `log()` from a mod, which has a location but isn't an error:
+// `  12.345 Script @__mymod__/control.lua:5: message`
+const logPattern = /^\s*\d+\.\d+ Script @/;
+const framePattern = /^\s+@?__([^\/\s]+?)__\/([^:\s]+\.lua):(\d+):/;
+
+/**
+ * Recognises Lua errors in Factorio's output, one line at a time, along with
+ * the stack traceback that follows them.
+ */
+export class LuaErrorParser {
+	private current?: LuaError;
+	private inTraceback = false;
+
+	public line(text:string): LuaErrorLine|undefined
+	{
+		if (this.current && text.trim() === "stack traceback:")
+		{
+			this.inTraceback = true;
+			return { kind: "traceback", error: this.current };
+		}
+		if (this.current && this.inTraceback)
+		{
+			if (text.match(/^\s/))
+			{
+				const frame = text.match(framePattern);
+				if (frame)
+				{
+					const location = { modname: frame[1], file: frame[2], line: Number(frame[3]) };
+					this.current.traceback.push(Object.assign({ text: text.trim() }, location));
+					return { kind: "frame", error: this.current, frame: location };
+				}
+				// frames in the engine or the level
+				return { kind: "traceback", error: this.current };
+			}
+			this.inTraceback = false;
+		}
+
+		const error = !text.match(logPattern) && text.match(errorPattern);
+		if (error)
+		{
+			this.current = { modname: error[1], file: error[2], line: Number(error[3]), message: error[4], traceback: [] };
+			return { kind: "error", error: this.current };
+		}
+		this.current = undefined;
+		return undefined;
+	}
+}
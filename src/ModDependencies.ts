@@ -0,0 +1,326 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { compareFactorioVersions } from './FactorioVersion';
+
+type DependencyKind = "required"|"optional"|"hidden"|"incompatible"|"unordered";
+
+interface ModDependency {
+	kind: DependencyKind
+	name: string
+	op?: "<"|"<="|"="|">="|">"
+	version?: string
+}
+
+interface ModListEntry {
+	name: string
+	enabled: boolean
+	version?: string
+}
+
+/**
+ * A mod that Factorio could load, from `data`, `mods` or the workspace.
+ */
+export interface InstalledMod {
+	name: string
+	version: string
+	dependencies?: string[] // undefined if the info.json could not be read
+	location: string
+}
+
+/**
+ * The parts of a mod's `info.json` that dependencies are checked with.
+ */
+interface ModInfo {
+	name: string
+	version: string
+	dependencies?: string[]
+}
+
+export interface DependencyProblem {
+	mod: string
+	message: string
+	// change to `adjustMods` that would resolve this problem, if there is an obvious one
+	fix?: { name: string; value: boolean|string }
+}
+
+const dependencyPattern = /^\s*(!|\?|\(\?\)|~)?\s*([^<>=]+?)\s*(?:(<=|>=|<|>|=)\s*(\d+(?:\.\d+){1,2}))?\s*$/;
+
+function parseDependency(dep:string): ModDependency|undefined
+{
+	const matches = dep.match(dependencyPattern);
+	if (!matches) { return undefined; }
+	const kinds:{[prefix:string]:DependencyKind} = {
+		"!": "incompatible",
+		"?": "optional",
+		"(?)": "hidden",
+		"~": "unordered",
+	};
+	return {
+		kind: matches[1] ? kinds[matches[1]] : "required",
+		name: matches[2],
+		op: <ModDependency["op"]>matches[3],
+		version: matches[4],
+	};
+}
+
+function satisfies(version:string, dep:ModDependency): boolean
+{
+	if (!dep.op || !dep.version) { return true; }
+	const cmp = compareFactorioVersions(version, dep.version);
+	switch (dep.op) {
+		case "<": return cmp < 0;
+		case "<=": return cmp <= 0;
+		case "=": return cmp === 0;
+		case ">=": return cmp >= 0;
+		case ">": return cmp > 0;
+	}
+}
+
+function describe(dep:ModDependency): string
+{
+	return dep.op ? `${dep.name} ${dep.op} ${dep.version}` : dep.name;
+}
+
+// mods with no dependencies listed depend on base
+function infoDependencies(info:ModInfo): string[]
+{
+	return info.dependencies ?? (info.name === "base" ? [] : ["base"]);
+}
+
+/**
+ * Check that parsed `info.json` content has the fields that are used from it.
+ */
+function asModInfo(json:unknown): ModInfo|undefined
+{
+	if (typeof json !== "object" || json === null) { return undefined; }
+	const info = <{[key:string]:unknown}>json;
+	if (typeof info.name !== "string" || typeof info.version !== "string") { return undefined; }
+	const dependencies = info.dependencies;
+	if (dependencies !== undefined &&
+		!(Array.isArray(dependencies) && dependencies.every(dep=>typeof dep === "string")))
+	{
+		return undefined;
+	}
+	return { name: info.name, version: info.version, dependencies: dependencies };
+}
+
+/**
+ * Read `info.json` from a mod zip without extracting it, by finding it in the zip's central directory.
+ */
+function readZipInfoJson(zippath:string): ModInfo|undefined
+{
+	const fd = fs.openSync(zippath, "r");
+	try
+	{
+		const size = fs.fstatSync(fd).size;
+		// end of central directory is in the last 22 bytes, plus up to 64k of comment
+		const tailsize = Math.min(size, 22 + 0xFFFF);
+		const tail = Buffer.alloc(tailsize);
+		fs.readSync(fd, tail, 0, tailsize, size - tailsize);
+		let eocd = tail.length - 22;
+		while (eocd >= 0 && tail.readUInt32LE(eocd) !== 0x06054b50) { eocd--; }
+		if (eocd < 0) { return undefined; }
+
+		const cdsize = tail.readUInt32LE(eocd + 12);
+		const cd = Buffer.alloc(cdsize);
+		fs.readSync(fd, cd, 0, cdsize, tail.readUInt32LE(eocd + 16));
+		let entry = 0;
+		while (entry + 46 <= cd.length && cd.readUInt32LE(entry) === 0x02014b50)
+		{
+			const namelen = cd.readUInt16LE(entry + 28);
+			const name = cd.toString("utf8", entry + 46, entry + 46 + namelen);
+			if (name.match(/^[^\/]+\/info\.json$/))
+			{
+				const method = cd.readUInt16LE(entry + 10);
+				const compsize = cd.readUInt32LE(entry + 20);
+				const local = Buffer.alloc(30);
+				fs.readSync(fd, local, 0, 30, cd.readUInt32LE(entry + 42));
+				const data = Buffer.alloc(compsize);
+				fs.readSync(fd, data, 0, compsize,
+					cd.readUInt32LE(entry + 42) + 30 + local.readUInt16LE(26) + local.readUInt16LE(28));
+				if (method === 0) { return asModInfo(JSON.parse(data.toString("utf8"))); }
+				if (method === 8) { return asModInfo(JSON.parse(zlib.inflateRawSync(data).toString("utf8"))); }
+				return undefined;
+			}
+			entry += 46 + namelen + cd.readUInt16LE(entry + 30) + cd.readUInt16LE(entry + 32);
+		}
+		return undefined;
+	}
+	finally
+	{
+		fs.closeSync(fd);
+	}
+}
+
+/**
+ * Find every mod Factorio could load: the mods shipped in `dataPath`, folders and zips in `modsPath`,
+ * and `workspaceMods`.
+ */
+export function findInstalledMods(dataPath:string, modsPath:string, workspaceMods:InstalledMod[]): Map<string,InstalledMod[]>
+{
+	const installed = new Map<string,InstalledMod[]>();
+	const add = (mod:InstalledMod)=>{
+		const versions = installed.get(mod.name) ?? [];
+		if (versions.find(m=>m.version === mod.version)) { return; }
+		versions.push(mod);
+		installed.set(mod.name, versions);
+	};
+	const readFolder = (location:string)=>{
+		const infopath = path.resolve(location, "./info.json");
+		if (!fs.existsSync(infopath)) { return; }
+		try
+		{
+			const info = asModInfo(JSON.parse(fs.readFileSync(infopath, "utf8")));
+			if (!info) { return; }
+			add({ name: info.name, version: info.version, dependencies: infoDependencies(info), location: location });
+		}
+		catch (ex) {}
+	};
+
+	if (fs.existsSync(dataPath))
+	{
+		fs.readdirSync(dataPath).filter(dir=>dir !== "core").forEach(dir=>readFolder(path.resolve(dataPath, dir)));
+	}
+	fs.readdirSync(modsPath).forEach(file=>{
+		const location = path.resolve(modsPath, file);
+		if (file.endsWith(".zip"))
+		{
+			const matches = file.match(/^(.+)_(\d+\.\d+\.\d+)\.zip$/);
+			if (!matches) { return; }
+			let info:ModInfo|undefined;
+			try
+			{
+				info = readZipInfoJson(location);
+			}
+			catch (ex) {}
+			add({ name: matches[1], version: matches[2], dependencies: info ? infoDependencies(info) : undefined, location: location });
+		}
+		else if (fs.statSync(location).isDirectory())
+		{
+			readFolder(location);
+		}
+	});
+	workspaceMods.forEach(add);
+	return installed;
+}
+
+/**
+ * Check the mods enabled in `modlist` against each other's dependencies, the way Factorio will at startup.
+ */
+export function checkDependencies(modlist:ModListEntry[], installed:Map<string,InstalledMod[]>): DependencyProblem[]
+{
+	const problems = new Array<DependencyProblem>();
+	const enabled = new Map<string,InstalledMod>();
+
+	const newest = (versions:InstalledMod[])=>versions.reduce((a,b)=>compareFactorioVersions(a.version,b.version) >= 0 ? a : b);
+
+	modlist.filter(entry=>entry.enabled).forEach(entry=>{
+		const versions = installed.get(entry.name);
+		if (!versions || versions.length === 0)
+		{
+			problems.push({
+				mod: entry.name,
+				message: `${entry.name} is enabled but not installed`,
+				fix: { name: entry.name, value: false },
+			});
+			return;
+		}
+		if (entry.version)
+		{
+			const pinned = versions.find(m=>m.version === entry.version);
+			if (!pinned)
+			{
+				const best = newest(versions);
+				problems.push({
+					mod: entry.name,
+					message: `${entry.name} ${entry.version} is enabled but only ${versions.map(m=>m.version).join(", ")} installed`,
+					fix: { name: entry.name, value: best.version },
+				});
+				enabled.set(entry.name, best);
+				return;
+			}
+			enabled.set(entry.name, pinned);
+		}
+		else
+		{
+			enabled.set(entry.name, newest(versions));
+		}
+	});
+
+	enabled.forEach(mod=>{
+		(mod.dependencies ?? []).forEach(depstring=>{
+			const dep = parseDependency(depstring);
+			if (!dep)
+			{
+				problems.push({ mod: mod.name, message: `${mod.name} has an unrecognized dependency "${depstring}"` });
+				return;
+			}
+			const target = enabled.get(dep.name);
+			if (dep.kind === "incompatible")
+			{
+				if (target)
+				{
+					problems.push({
+						mod: mod.name,
+						message: `${mod.name} is incompatible with ${dep.name}`,
+						fix: { name: dep.name, value: false },
+					});
+				}
+				return;
+			}
+			if (target)
+			{
+				if (!satisfies(target.version, dep))
+				{
+					const candidate = (installed.get(dep.name) ?? []).find(m=>satisfies(m.version, dep));
+					problems.push({
+						mod: mod.name,
+						message: `${mod.name} requires ${describe(dep)}, but ${dep.name} ${target.version} is enabled`,
+						fix: candidate && { name: dep.name, value: candidate.version },
+					});
+				}
+				return;
+			}
+			if (dep.kind === "required" || dep.kind === "unordered")
+			{
+				const versions = installed.get(dep.name) ?? [];
+				const candidate = versions.find(m=>satisfies(m.version, dep));
+				problems.push({
+					mod: mod.name,
+					message: versions.length > 0 ?
+						`${mod.name} requires ${describe(dep)}, which is installed but not enabled` :
+						`${mod.name} requires ${describe(dep)}, which is not installed`,
+					fix: candidate && { name: dep.name, value: dep.op ? candidate.version : true },
+				});
+			}
+		});
+	});
+
+	// dependencies that affect load order must not form a cycle
+	const visiting = new Array<string>();
+	const done = new Set<string>();
+	const visit = (name:string)=>{
+		if (done.has(name)) { return; }
+		const start = visiting.indexOf(name);
+		if (start !== -1)
+		{
+			const cycle = visiting.slice(start).concat(name);
+			problems.push({ mod: name, message: `Circular dependency: ${cycle.join(" -> ")}` });
+			return;
+		}
+		visiting.push(name);
+		(enabled.get(name)?.dependencies ?? []).forEach(depstring=>{
+			const dep = parseDependency(depstring);
+			if (dep && dep.kind !== "incompatible" && dep.kind !== "unordered" && enabled.has(dep.name))
+			{
+				visit(dep.name);
+			}
+		});
+		visiting.pop();
+		done.add(name);
+	};
+	enabled.forEach((mod,name)=>visit(name));
+
+	return problems;
+}
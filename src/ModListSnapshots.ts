@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface ModListSnapshot {
+	pid: number // extension host that took the snapshot
+	modList: string
+	modSettings?: string // base64
+}
+
+/**
+ * Saves `mod-list.json` and `mod-settings.dat` before a debug session changes them,
+ * so they can be put back exactly afterwards. Snapshots are kept on disk until restored,
+ * so that a crashed session can be cleaned up at the next activation.
+ */
+export class ModListSnapshots {
+	private readonly markerPath: string;
+
+	constructor(storagePath:string)
+	{
+		this.markerPath = path.join(storagePath, "pending-modlist-restore.json");
+	}
+
+	private read(): {[modsPath:string]:ModListSnapshot}
+	{
+		try
+		{
+			return JSON.parse(fs.readFileSync(this.markerPath, "utf8"));
+		}
+		catch (ex)
+		{
+			return {};
+		}
+	}
+
+	private write(pending:{[modsPath:string]:ModListSnapshot})
+	{
+		if (Object.keys(pending).length === 0)
+		{
+			if (fs.existsSync(this.markerPath)) { fs.unlinkSync(this.markerPath); }
+			return;
+		}
+		fs.mkdirSync(path.dirname(this.markerPath), { recursive: true });
+		fs.writeFileSync(this.markerPath, JSON.stringify(pending), "utf8");
+	}
+
+	/**
+	 * Snapshot the mod list in `modsPath`, unless there is already a pending snapshot of it,
+	 * which is older and therefore closer to the user's own setup.
+	 */
+	public snapshot(modsPath:string)
+	{
+		const pending = this.read();
+		if (pending[modsPath]) { return; }
+		const settingspath = path.resolve(modsPath, "./mod-settings.dat");
+		pending[modsPath] = {
+			pid: process.pid,
+			modList: fs.readFileSync(path.resolve(modsPath, "./mod-list.json"), "utf8"),
+			modSettings: fs.existsSync(settingspath) ? fs.readFileSync(settingspath).toString("base64") : undefined,
+		};
+		this.write(pending);
+	}
+
+	/**
+	 * Restore the snapshot of `modsPath`, if there is one.
+	 * @returns true if a snapshot was restored
+	 */
+	public restore(modsPath:string): boolean
+	{
+		const pending = this.read();
+		const snapshot = pending[modsPath];
+		if (!snapshot) { return false; }
+		fs.writeFileSync(path.resolve(modsPath, "./mod-list.json"), snapshot.modList, "utf8");
+		if (snapshot.modSettings !== undefined)
+		{
+			fs.writeFileSync(path.resolve(modsPath, "./mod-settings.dat"), Buffer.from(snapshot.modSettings, "base64"));
+		}
+		delete pending[modsPath];
+		this.write(pending);
+		return true;
+	}
+
+	/**
+	 * Restore snapshots left behind by extension hosts that are no longer running.
+	 * @returns the modsPaths that were restored
+	 */
+	public restoreAbandoned(): string[]
+	{
+		const pending = this.read();
+		return Object.keys(pending).filter(modsPath=>{
+			if (ModListSnapshots.isRunning(pending[modsPath].pid)) { return false; }
+			try
+			{
+				return this.restore(modsPath);
+			}
+			catch (ex)
+			{
+				return false;
+			}
+		});
+	}
+
+	private static isRunning(pid:number): boolean
+	{
+		if (pid === process.pid) { return false; }
+		try
+		{
+			// signal 0 only checks that the process exists
+			process.kill(pid, 0);
+			return true;
+		}
+		catch (ex)
+		{
+			return (<NodeJS.ErrnoException>ex).code === "EPERM";
+		}
+	}
+}
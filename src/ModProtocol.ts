@@ -0,0 +1,488 @@
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { Buffer } from 'buffer';
+
+/**
+ * Version of the stdio protocol spoken with the debugadapter mod. The mod announces
+ * its version in `EVTprotocol` at startup, and bumps it whenever a message changes shape.
+ */
+export const protocolVersion = 1;
+
+/**
+ * Check the version the mod announced before it first waits for commands, as
+ * neither side can be trusted to understand the other's messages otherwise.
+ * @param announced version from `EVTprotocol`, undefined if the mod didn't send one
+ * @returns why the session can't continue with this mod, or undefined if it can
+ */
+export function checkProtocolVersion(announced:number|undefined): string|undefined
+{
+	if (announced === undefined)
+	{
+		return `debugadapter mod did not announce a protocol version, so is older than this extension, which expects version ${protocolVersion}`;
+	}
+	if (announced !== protocolVersion)
+	{
+		return `debugadapter mod speaks protocol version ${announced}, but this extension expects version ${protocolVersion}`;
+	}
+	return undefined;
+}
+
+/**
+ * How stdout is split into messages: each line is one message, except block
+ * prints, which may span lines and are delimited by markers instead.
+ */
+export const stdoutFraming = [
+	Buffer.from("\n"),
+	{
+		start: Buffer.from("***DebugAdapterBlockPrint***"),
+		end: Buffer.from("***EndDebugAdapterBlockPrint***"),
+	},
+];
+
+export interface EvaluateResponseBody {
+	result: string
+	type?: string
+	presentationHint?: DebugProtocol.VariablePresentationHint
+	variablesReference: number
+	namedVariables?: number
+	indexedVariables?: number
+
+	// sequence number of this eval
+	seq: number
+	// translation ID for time this eval ran
+	timer?: number
+}
+
+export interface ChunkId {
+	state: string // name of the Lua state that loaded the chunk
+	id: number
+}
+
+export interface ExceptionInfo {
+	filter?: string
+	traceback?: string
+	entrypoint?: string
+	value?: DebugProtocol.Variable
+
+	// sequence number of this request
+	seq: number
+}
+
+export interface LoadedSourceMessage {
+	path?: string // file sources
+	chunk?: ChunkId // chunks loaded from strings
+	name?: string
+	module?: string
+}
+
+/**
+ * Messages printed by the mod on stdout, by their prefix.
+ */
+export interface ModMessages {
+	// `DBG: <event>` prompts, the mod is waiting in debug.debug() for commands
+	DBG: string
+	DBGlogpoint: { output: string; variablesReference?: number; filePath?: string; line?: number }
+	DBGprint: { output: string; category?: string; source?: string; line?: number }
+	DBGfuncbps: { verified: string[] }
+	DBGsource: { seq: number; content?: string; unavailable?: string }
+	DBGstack: (DebugProtocol.StackFrame & { source?: DebugProtocol.Source & { chunk?: ChunkId } })[]
+	DBGscopes: { frameId: number; scopes: DebugProtocol.Scope[] }
+	DBGvars: { seq: number; vars: DebugProtocol.Variable[] }
+	DBGsetvar: { seq: number; body: DebugProtocol.Variable }
+	DBGeval: EvaluateResponseBody
+	DBGexceptioninfo: ExceptionInfo
+	DBGcompletions: { seq: number; targets: DebugProtocol.CompletionItem[] }
+	DBGtranslate: { id: number; translation: string }
+	DBGuntranslate: undefined
+	EVTprotocol: { version: number }
+	EVTevents: string[]
+	EVTmodules: DebugProtocol.Module[]
+	EVTsource: LoadedSourceMessage
+	// profile dumps are passed whole to Profile.parse
+	PROFILE: string
+}
+
+export type ModMessageKind = keyof ModMessages;
+
+type MessageParsers = {[K in ModMessageKind]: (body:string, line:string)=>ModMessages[K]};
+
+const parseJSON = (body:string)=>JSON.parse(body.trim());
+
+const parsers:MessageParsers = {
+	DBG: body=>body.trim(),
+	DBGlogpoint: parseJSON,
+	DBGprint: parseJSON,
+	DBGfuncbps: parseJSON,
+	DBGsource: parseJSON,
+	DBGstack: parseJSON,
+	DBGscopes: parseJSON,
+	DBGvars: parseJSON,
+	DBGsetvar: parseJSON,
+	DBGeval: parseJSON,
+	DBGexceptioninfo: parseJSON,
+	DBGcompletions: parseJSON,
+	DBGtranslate: body=>{
+		const split = body.indexOf("\n");
+		return {
+			id: Number.parseInt(body.substr(0,split).trim()),
+			translation: body.substr(split+1),
+		};
+	},
+	DBGuntranslate: ()=>undefined,
+	EVTprotocol: parseJSON,
+	EVTevents: parseJSON,
+	EVTmodules: parseJSON,
+	EVTsource: parseJSON,
+	PROFILE: (body,line)=>line,
+};
+
+export type ModMessage = {[K in ModMessageKind]: { kind: K; message: ModMessages[K] }}[ModMessageKind];
+
+/**
+ * Parse one line (or block print) of stdout.
+ * @returns undefined if it is not a protocol message, which should be treated as plain output
+ * @throws if it is a protocol message with a malformed body
+ */
+export function parseModMessage(line:string): ModMessage|undefined
+{
+	let kind:string;
+	let body:string;
+	if (line.startsWith("PROFILE:"))
+	{
+		kind = "PROFILE";
+		body = line.substring(8);
+	}
+	else
+	{
+		const match = line.match(/^((?:DBG|EVT)[a-z]*)(?:: |$)/);
+		if (!match) { return undefined; }
+		kind = match[1];
+		body = line.substring(match[0].length);
+	}
+	if (!parsers.hasOwnProperty(kind)) { return undefined; }
+	const parser = <(body:string, line:string)=>any>parsers[<ModMessageKind>kind];
+	return { kind: <ModMessageKind>kind, message: parser(body,line) };
+}
+
+type ModMessageHandler<K extends ModMessageKind> = (message:ModMessages[K])=>void|Promise<void>;
+
+/**
+ * Dispatches messages from the mod to the handler registered for their kind.
+ */
+export class ModMessageReader {
+	private readonly handlers = new Map<ModMessageKind, ModMessageHandler<any>>();
+
+	constructor(private readonly onError:(error:string)=>void) {}
+
+	public on<K extends ModMessageKind>(kind:K, handler:ModMessageHandler<K>): this
+	{
+		this.handlers.set(kind, handler);
+		return this;
+	}
+
+	/**
+	 * @returns false if `line` was not a message with a registered handler
+	 */
+	public dispatch(line:string): boolean
+	{
+		let parsed:ModMessage|undefined;
+		try
+		{
+			parsed = parseModMessage(line);
+		}
+		catch (ex)
+		{
+			this.onError(`malformed message from mod: ${ex}\n${line}`);
+			return true;
+		}
+		if (!parsed) { return false; }
+		const handler = this.handlers.get(parsed.kind);
+		if (!handler) { return false; }
+		const result = handler(parsed.message);
+		if (result)
+		{
+			result.catch(ex=>this.onError(`error handling ${parsed!.kind}: ${ex}`));
+		}
+		return true;
+	}
+}
+
+/**
+ * Commands written to the mod's stdin while it is in a prompt.
+ */
+export const modCommands = {
+	continue: ()=>"cont",
+	hookOptions: (global:"__DebugAdapter"|"__Profiler", options:{[key:string]:boolean|number|undefined})=>{
+		let hookopts = "";
+		for (const key in options) {
+			if (options.hasOwnProperty(key) && options[key] !== undefined)
+			{
+				hookopts += `${key}=${options[key]},`;
+			}
+		}
+		return `${global}={${hookopts}}`;
+	},
+	pause: (pause:boolean)=>`__DebugAdapter.pause(${pause})`,
+	step: (kind:string)=>`__DebugAdapter.step("${kind}")`,
+	stackTrace: (startFrame:number, levels:number)=>`__DebugAdapter.stackTrace(${startFrame},${levels})`,
+	scopes: (frameId:number)=>`__DebugAdapter.scopes(${frameId})\n`,
+	variables: (variablesReference:number, seq:number, filter?:string, start?:number, count?:number)=>
+		`__DebugAdapter.variables(${variablesReference},${seq},${filter? `"${filter}"`:"nil"},${start || "nil"},${count || "nil"})\n`,
+	setVariable: (variablesReference:number, name:string, value:string, seq:number)=>
+		`__DebugAdapter.setVariable(${variablesReference},${luaBlockQuote(Buffer.from(name))},${luaBlockQuote(Buffer.from(value))},${seq})\n`,
+	evaluate: (frameId:number|undefined, context:string|undefined, expression:string, seq:number)=>
+		`__DebugAdapter.evaluate(${frameId},"${context}",${luaBlockQuote(Buffer.from(expression.replace(/\n/g," ")))},${seq})\n`,
+	evaluateRunning: (expression:string, seq:number)=>
+		`__DebugAdapter.evaluateRunning(${luaBlockQuote(Buffer.from(expression.replace(/\n/g," ")))},${seq})\n`,
+	setSpeed: (speed:number, seq:number)=>`__DebugAdapter.setSpeed(${speed},${seq})\n`,
+	save: (name:string, seq:number)=>`__DebugAdapter.save(${luaBlockQuote(Buffer.from(name))},${seq})\n`,
+	reloadScript: (seq:number)=>`__DebugAdapter.reloadScript(${seq})\n`,
+	luaMemory: (seq:number)=>`__DebugAdapter.luaMemory(${seq})\n`,
+	completions: (frameId:number, text:string, column:number, seq:number)=>
+		`__DebugAdapter.completions(${frameId},${luaBlockQuote(Buffer.from(text.replace(/\n/g," ")))},${column},${seq})\n`,
+	source: (chunk:ChunkId, seq:number)=>
+		`__DebugAdapter.source(${luaBlockQuote(Buffer.from(chunk.state))},${chunk.id},${seq})\n`,
+	exceptionInfo: (seq:number)=>`__DebugAdapter.exceptionInfo(${seq})\n`,
+	updateBreakpoints: (filename:string, breaks:DebugProtocol.SourceBreakpoint[])=>Buffer.concat([
+		Buffer.from("__DebugAdapter.updateBreakpoints("),
+		luaBlockQuote(encodeBreakpoints(filename,breaks)),
+		Buffer.from(")\n")
+	]),
+	updateFunctionBreakpoints: (breaks:DebugProtocol.FunctionBreakpoint[])=>Buffer.concat([
+		Buffer.from("__DebugAdapter.updateFunctionBreakpoints("),
+		luaBlockQuote(encodeFunctionBreakpoints(breaks)),
+		Buffer.from(")\n")
+	]),
+	updateEventBreakpoints: (events:string[])=>Buffer.concat([
+		Buffer.from("__DebugAdapter.updateEventBreakpoints("),
+		luaBlockQuote(Buffer.from(events.join(","))),
+		Buffer.from(")\n")
+	]),
+};
+
+export function luaBlockQuote(inbuff:Buffer) : Buffer {
+	const tailmatch = inbuff.toString().match(/\]=*$/);
+	const blockpad = "=".repeat((inbuff.toString().match(/\]=*\]/g)||[])
+		.map((matchstr)=>{return matchstr.length - 1;})
+		.reduce((prev,curr)=>{return Math.max(prev,curr);},
+		// force extra pad if the string ends with a square bracket followed by zero or more equals
+		// as it will be confused with the close bracket
+		tailmatch ? tailmatch[0].length : 0));
+
+	return Buffer.concat([Buffer.from(`[${blockpad}[`), inbuff, Buffer.from(`]${blockpad}]`) ]);
+}
+
+function encodeVarInt(val:number) : Buffer {
+
+	if (val === 10)
+	{
+		// escape \n
+		val = 0xFFFFFFFF;
+	} else if (val === 26) {
+		val = 0xFFFFFFFE;
+	} else if (val === 13) {
+		val = 0xFFFFFFFD;
+	}
+	let prefix: number;
+	let firstmask: number;
+	let startshift: number;
+	let bsize: number;
+
+	if (val < 0x80)
+	{
+		//[[1 byte]]
+		return Buffer.from([val]);
+	}
+	else if (val < 0x0800)
+	{
+		//[[2 bytes]]
+		bsize = 2;
+		prefix = 0xc0;
+		firstmask = 0x1f;
+		startshift = 6;
+	}
+	else if (val < 0x10000)
+	{
+		//[[3 bytes]]
+		bsize = 3;
+		prefix = 0xe0;
+		firstmask = 0x0f;
+		startshift = 12;
+	}
+	else if (val < 0x200000)
+	{
+		//[[4 bytes]]
+		bsize = 4;
+		prefix = 0xf0;
+		firstmask = 0x07;
+		startshift = 18;
+	}
+	else if (val < 0x4000000)
+	{
+		//[[5 bytes]]
+		bsize = 5;
+		prefix = 0xf8;
+		firstmask = 0x03;
+		startshift = 24;
+	}
+	else
+	{
+		//[[6 bytes]]
+		bsize = 6;
+		prefix = 0xfc;
+		firstmask = 0x03;
+		startshift = 30;
+	}
+
+	let buff = Buffer.alloc(bsize);
+	// eslint-disable-next-line no-bitwise
+	buff[0] = (prefix|((val>>startshift)&firstmask));
+	for (let shift = startshift-6, i=1; shift >= 0; shift -= 6, i++) {
+		// eslint-disable-next-line no-bitwise
+		buff[i] = (0x80|((val>>shift)&0x3f));
+	}
+	return buff;
+}
+
+function encodeString(strval:string)
+{
+	const sbuff = Buffer.from(strval,"utf8");
+	const slength = encodeVarInt(sbuff.length);
+	return Buffer.concat([slength,sbuff]);
+}
+
+function encodeBreakpoint(bp: DebugProtocol.SourceBreakpoint) : Buffer {
+	let linebuff = encodeVarInt(bp.line);
+	let hasExtra = 0;
+	let extras = new Array<Buffer>();
+
+	if (bp.condition)
+	{
+		// eslint-disable-next-line no-bitwise
+		hasExtra |= 1;
+		extras.push(encodeString(bp.condition.replace("\n"," ")));
+	}
+
+	if (bp.hitCondition)
+	{
+		// eslint-disable-next-line no-bitwise
+		hasExtra |= 2;
+		extras.push(encodeString(bp.hitCondition.replace("\n"," ")));
+	}
+
+	if (bp.logMessage)
+	{
+		// eslint-disable-next-line no-bitwise
+		hasExtra |= 4;
+		extras.push(encodeString(bp.logMessage.replace("\n"," ")));
+	}
+
+	return Buffer.concat([linebuff,Buffer.from([hasExtra]),Buffer.concat(extras)]);
+}
+
+function encodeBreakpoints(filename:string,breaks:DebugProtocol.SourceBreakpoint[]) : Buffer {
+	const fnbuff = encodeString(filename);
+
+	const plainbps = breaks.filter(bp => !bp.condition && !bp.hitCondition && !bp.logMessage).map(bp => bp.line);
+	let plainbuff : Buffer;
+	if (plainbps.length === 0)
+	{
+		plainbuff = Buffer.from([0xff]);
+	}
+	else if (plainbps.length === 10)
+	{
+		let countbuff = Buffer.from([0xfe]);
+		plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => encodeVarInt(line)))]);
+	}
+	else if (plainbps.length === 26)
+	{
+		let countbuff = Buffer.from([0xfd]);
+		plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => encodeVarInt(line)))]);
+	}
+	else if (plainbps.length === 13)
+	{
+		let countbuff = Buffer.from([0xfc]);
+		plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => encodeVarInt(line)))]);
+	}
+	else
+	{
+		let countbuff = Buffer.from([plainbps.length]);
+		plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => encodeVarInt(line)))]);
+	}
+
+	const complexbps = breaks.filter(bp => bp.condition || bp.hitCondition || bp.logMessage);
+	let complexbuff : Buffer;
+	if (complexbps.length === 0)
+	{
+		complexbuff = Buffer.from([0xff]);
+	}
+	else if (complexbps.length === 10)
+	{
+		let countbuff = Buffer.from([0xfe]);
+		complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => encodeBreakpoint(bp)))]);
+	}
+	else if (complexbps.length === 26)
+	{
+		let countbuff = Buffer.from([0xfd]);
+		complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => encodeBreakpoint(bp)))]);
+	}
+	else if (complexbps.length === 13)
+	{
+		let countbuff = Buffer.from([0xfc]);
+		complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => encodeBreakpoint(bp)))]);
+	}
+	else
+	{
+		let countbuff = Buffer.from([complexbps.length]);
+		complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => encodeBreakpoint(bp)))]);
+	}
+
+	return Buffer.concat([fnbuff,plainbuff,complexbuff]);
+}
+
+function encodeFunctionBreakpoint(bp: DebugProtocol.FunctionBreakpoint) : Buffer {
+	let namebuff = encodeString(bp.name);
+	let hasExtra = 0;
+	let extras = new Array<Buffer>();
+
+	if (bp.condition)
+	{
+		// eslint-disable-next-line no-bitwise
+		hasExtra |= 1;
+		extras.push(encodeString(bp.condition.replace("\n"," ")));
+	}
+
+	if (bp.hitCondition)
+	{
+		// eslint-disable-next-line no-bitwise
+		hasExtra |= 2;
+		extras.push(encodeString(bp.hitCondition.replace("\n"," ")));
+	}
+
+	return Buffer.concat([namebuff,Buffer.from([hasExtra]),Buffer.concat(extras)]);
+}
+
+function encodeFunctionBreakpoints(breaks:DebugProtocol.FunctionBreakpoint[]) : Buffer {
+	let countbuff : Buffer;
+	if (breaks.length === 0)
+	{
+		countbuff = Buffer.from([0xff]);
+	}
+	else if (breaks.length === 10)
+	{
+		countbuff = Buffer.from([0xfe]);
+	}
+	else if (breaks.length === 26)
+	{
+		countbuff = Buffer.from([0xfd]);
+	}
+	else if (breaks.length === 13)
+	{
+		countbuff = Buffer.from([0xfc]);
+	}
+	else
+	{
+		countbuff = Buffer.from([breaks.length]);
+	}
+
+	return Buffer.concat([countbuff,Buffer.concat(breaks.map(bp => encodeFunctionBreakpoint(bp)))]);
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+type ModAdjustments = {[modname:string]:boolean|string};
+
+/**
+ * A named set of mods, as used in `adjustMods`. Mods named in `mods` override
+ * those from the sets in `extends`, which are applied in order.
+ */
+export interface ModSet {
+	extends?: string|string[]
+	mods?: ModAdjustments
+}
+
+type ModSets = {[name:string]:ModSet};
+
+export class ModSetError extends Error {}
+
+/**
+ * Collect mod set definitions from `factorio.modSets` and any `.factorio-modsets.json`
+ * in the root of the workspace folder(s). Definitions from a file replace those of the same name in settings.
+ */
+export function loadModSets(folder?: vscode.WorkspaceFolder): ModSets
+{
+	const sets:ModSets = Object.assign({},
+		vscode.workspace.getConfiguration(undefined,folder?.uri).get<ModSets>("factorio.modSets",{}));
+
+	const folders = folder ? [folder] : vscode.workspace.workspaceFolders ?? [];
+	folders.forEach(f=>{
+		if (f.uri.scheme !== "file") { return; }
+		const setspath = path.join(f.uri.fsPath, ".factorio-modsets.json");
+		if (!fs.existsSync(setspath)) { return; }
+		try
+		{
+			Object.assign(sets, JSON.parse(fs.readFileSync(setspath, "utf8")));
+		}
+		catch (ex)
+		{
+			throw new ModSetError(`Unable to read ${setspath}: ${ex.message}`);
+		}
+	});
+	return sets;
+}
+
+/**
+ * Flatten a mod set and everything it inherits into a single `adjustMods` dictionary.
+ */
+export function resolveModSet(name:string, sets:ModSets): ModAdjustments
+{
+	const resolving = new Array<string>();
+	const resolve = (setname:string): ModAdjustments=>{
+		if (resolving.includes(setname))
+		{
+			throw new ModSetError(`Mod set "${setname}" inherits from itself: ${resolving.concat(setname).join(" -> ")}`);
+		}
+		const set = sets[setname];
+		if (!set)
+		{
+			throw new ModSetError(resolving.length > 0 ?
+				`Mod set "${resolving[resolving.length-1]}" extends unknown mod set "${setname}"` :
+				`Unknown mod set "${setname}"`);
+		}
+		resolving.push(setname);
+		const mods:ModAdjustments = {};
+		const parents = typeof set.extends === "string" ? [set.extends] : set.extends ?? [];
+		parents.forEach(parent=>Object.assign(mods, resolve(parent)));
+		Object.assign(mods, set.mods);
+		resolving.pop();
+		return mods;
+	};
+	return resolve(name);
+}
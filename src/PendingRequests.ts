@@ -0,0 +1,119 @@
+/**
+ * A request to the mod that failed before it got an answer: it timed out, was
+ * cancelled by the client, or Factorio went away.
+ */
+export class PendingRequestError extends Error {
+	constructor(message:string, public readonly cancelled:boolean = false)
+	{
+		super(message);
+	}
+}
+
+interface PendingRequest {
+	resolve: (value:unknown)=>void
+	reject: (reason:PendingRequestError)=>void
+	timer?: NodeJS.Timeout
+	requestSeq?: number
+}
+
+/**
+ * Tracks requests sent to the mod that are waiting for an answer on stdout,
+ * keyed by message kind and the id the mod will echo back.
+ */
+export class PendingRequests {
+	private readonly pending = new Map<string, PendingRequest>();
+
+	/**
+	 * @param timeout milliseconds to wait for an answer, or 0 to wait forever
+	 */
+	constructor(public timeout:number) {}
+
+	private static key(kind:string, id:number)
+	{
+		return `${kind}:${id}`;
+	}
+
+	/**
+	 * Register a pending request, then call `send` to actually issue it.
+	 * @param requestSeq DAP request this is answering, for `cancelRequest`
+	 */
+	public add<T>(kind:string, id:number, send:()=>void, requestSeq?:number): Promise<T>
+	{
+		const key = PendingRequests.key(kind,id);
+		return new Promise<T>((resolve,reject)=>{
+			const request:PendingRequest = { resolve: <(value:unknown)=>void>resolve, reject: reject, requestSeq: requestSeq };
+			if (this.timeout > 0)
+			{
+				request.timer = setTimeout(()=>{
+					this.pending.delete(key);
+					reject(new PendingRequestError(`${kind} request timed out after ${this.timeout}ms`));
+				}, this.timeout);
+			}
+			// a new request for the same key replaces any older one
+			const old = this.pending.get(key);
+			if (old)
+			{
+				if (old.timer) { clearTimeout(old.timer); }
+				old.reject(new PendingRequestError(`${kind} request superseded`, true));
+			}
+			this.pending.set(key, request);
+			send();
+		});
+	}
+
+	/**
+	 * Deliver an answer from the mod.
+	 * @returns false if nothing was waiting for it (it may have already timed out)
+	 */
+	public resolve(kind:string, id:number, value:unknown): boolean
+	{
+		const key = PendingRequests.key(kind,id);
+		const request = this.pending.get(key);
+		if (!request) { return false; }
+		this.pending.delete(key);
+		if (request.timer) { clearTimeout(request.timer); }
+		request.resolve(value);
+		return true;
+	}
+
+	/**
+	 * @returns the id of the longest waiting request of `kind`, if there is one
+	 */
+	public oldest(kind:string): number|undefined
+	{
+		const prefix = `${kind}:`;
+		const key = Array.from(this.pending.keys()).find(key=>key.startsWith(prefix));
+		return key === undefined ? undefined : Number(key.substring(prefix.length));
+	}
+
+	/**
+	 * Cancel the pending request(s) made for DAP request `requestSeq`.
+	 */
+	public cancel(requestSeq:number): boolean
+	{
+		let found = false;
+		this.pending.forEach((request,key)=>{
+			if (request.requestSeq === requestSeq)
+			{
+				this.pending.delete(key);
+				if (request.timer) { clearTimeout(request.timer); }
+				request.reject(new PendingRequestError("cancelled", true));
+				found = true;
+			}
+		});
+		return found;
+	}
+
+	/**
+	 * Fail everything still waiting, e.g. when Factorio exits.
+	 */
+	public rejectAll(reason:string)
+	{
+		const pending = Array.from(this.pending.values());
+		this.pending.clear();
+		pending.forEach(request=>{
+			if (request.timer) { clearTimeout(request.timer); }
+			request.reject(new PendingRequestError(reason));
+		});
+	}
+}
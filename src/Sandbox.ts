@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as ini from 'ini';
+
+interface ModList {
+	mods: {name:string; enabled:boolean; version?:string}[]
+}
+
+export interface Sandbox {
+	sandboxPath: string // throwaway write-data directory
+	configPath: string
+	modsPath: string
+}
+
+/**
+ * Link a mod file or folder into the sandbox, or copy it where links aren't available.
+ */
+function linkMod(target:string, link:string)
+{
+	const isDir = fs.statSync(target).isDirectory();
+	if (os.platform() === "win32")
+	{
+		// junctions don't need elevation, but file symlinks do
+		if (isDir)
+		{
+			fs.symlinkSync(target, link, "junction");
+		}
+		else
+		{
+			fs.copyFileSync(target, link);
+		}
+	}
+	else
+	{
+		fs.symlinkSync(target, link);
+	}
+}
+
+/**
+ * Create a temporary write-data directory, with a `config.ini` pointing to it and a `mods`
+ * directory containing links to the mods from `modsPath` which are enabled there or in `adjustMods`.
+ * @param configdata parsed contents of the real `config.ini`, for graphics and other settings
+ * @param playerName username to play as, otherwise Factorio's default
+ */
+export function createSandbox(configdata:unknown, modsPath:string, adjustMods?:{[key:string]:boolean|string}, playerName?:string): Sandbox
+{
+	const sandboxPath = fs.mkdtempSync(path.join(os.tmpdir(), "factorio-sandbox-"));
+	const sandboxMods = path.join(sandboxPath, "mods");
+	const sandboxConfig = path.join(sandboxPath, "config", "config.ini");
+	fs.mkdirSync(sandboxMods, { recursive: true });
+	fs.mkdirSync(path.dirname(sandboxConfig), { recursive: true });
+
+	const config:{[section:string]:unknown} = Object.assign({}, typeof configdata === "object" ? configdata : undefined);
+	config.path = Object.assign({}, typeof config.path === "object" ? config.path : undefined, { "write-data": sandboxPath });
+	fs.writeFileSync(sandboxConfig, ini.stringify(config), "utf8");
+
+	const modlistpath = path.resolve(modsPath, "./mod-list.json");
+	const modlist:ModList = fs.existsSync(modlistpath) ?
+		JSON.parse(fs.readFileSync(modlistpath, "utf8")) :
+		{ mods: [{ name: "base", enabled: true }] };
+	const wanted = new Set(modlist.mods.filter(mod=>mod.enabled).map(mod=>mod.name));
+	for (const mod in adjustMods) {
+		if (adjustMods.hasOwnProperty(mod))
+		{
+			if (adjustMods[mod] === false)
+			{
+				wanted.delete(mod);
+			}
+			else
+			{
+				wanted.add(mod);
+			}
+		}
+	}
+
+	if (fs.existsSync(modsPath))
+	{
+		fs.readdirSync(modsPath).forEach(file=>{
+			// mod folders are either `name` or `name_version`, zips always `name_version.zip`
+			const matches = file.match(/^(.+?)(?:_\d+\.\d+\.\d+)?(?:\.zip)?$/);
+			if (matches && wanted.has(matches[1]))
+			{
+				linkMod(path.resolve(modsPath, file), path.join(sandboxMods, file));
+			}
+		});
+	}
+	const settingspath = path.resolve(modsPath, "./mod-settings.dat");
+	if (fs.existsSync(settingspath))
+	{
+		fs.copyFileSync(settingspath, path.join(sandboxMods, "mod-settings.dat"));
+	}
+	modlist.mods = modlist.mods.filter(mod=>wanted.has(mod.name) || mod.name === "base");
+	fs.writeFileSync(path.join(sandboxMods, "mod-list.json"), JSON.stringify(modlist), "utf8");
+
+	if (playerName)
+	{
+		// multiplayer needs a distinct name for each instance
+		fs.writeFileSync(path.join(sandboxPath, "player-data.json"), JSON.stringify({ "service-username": playerName }), "utf8");
+	}
+
+	return { sandboxPath: sandboxPath, configPath: sandboxConfig, modsPath: sandboxMods };
+}
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { validateJson } from './JsonSchema';
+
+/**
+ * Launch options for running as a multiplayer server.
+ */
+export interface ServerOptions {
+	save?: string // save to host. Without this, the latest save is loaded, or a new map started if `scenario` or `mapGenSettings` is set
+	scenario?: string // mod-qualified scenario name for a new map, defaults to `base/freeplay`
+	mapGenSettings?: object // contents of map-gen-settings.json for a new map
+	settings?: object // contents of server-settings.json, merged over defaults suitable for a local test server
+	port?: number
+}
+
+export interface ServerArguments {
+	args: string[] // to add to factorioArgs
+	tempDir: string // holds the generated settings, to be removed when the session ends
+}
+
+export class LaunchOptionsError extends Error {}
+
+const defaultServerSettings = {
+	name: "Factorio Mod Debug",
+	description: "",
+	visibility: { public: false, lan: false },
+	require_user_verification: false,
+};
+
+/**
+ * Check generated settings against one of the bundled schemas, then write them to `filepath`.
+ */
+export function writeValidated(value:object, schemaDir:string, schemaName:string, filepath:string)
+{
+	const schema = JSON.parse(fs.readFileSync(path.resolve(schemaDir, schemaName), "utf8"));
+	const errors = validateJson(value, schema);
+	if (errors.length > 0)
+	{
+		throw new LaunchOptionsError(`Invalid ${path.basename(filepath)}: ${errors.join("; ")}`);
+	}
+	fs.writeFileSync(filepath, JSON.stringify(value, undefined, 2), "utf8");
+}
+
+/**
+ * Delete a generated directory and everything in it, if it exists. Symlinks
+ * are removed, not followed.
+ */
+export function removeDir(dir:string)
+{
+	if (!fs.existsSync(dir)) { return; }
+	fs.readdirSync(dir, { withFileTypes: true }).forEach(entry=>{
+		const entrypath = path.join(dir, entry.name);
+		if (entry.isDirectory())
+		{
+			removeDir(entrypath);
+		}
+		else
+		{
+			fs.unlinkSync(entrypath);
+		}
+	});
+	fs.rmdirSync(dir);
+}
+
+/**
+ * Find a save by path, or by name in `savesPath`.
+ */
+export function resolveSave(save:string, savesPath:string): string
+{
+	const candidates = [save, path.resolve(savesPath, save), path.resolve(savesPath, `${save}.zip`)];
+	const found = candidates.find(candidate=>fs.existsSync(candidate));
+	if (!found)
+	{
+		throw new LaunchOptionsError(`Save "${save}" not found`);
+	}
+	return found;
+}
+
+/**
+ * Generate settings files for a server and build the Factorio arguments to start it.
+ * @param savesPath `saves` directory in write-data, to find saves by name
+ * @param schemaDir location of the bundled JSON schemas, to check generated settings against
+ */
+export function serverArguments(options:ServerOptions, savesPath:string, schemaDir:string): ServerArguments
+{
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "factorio-server-"));
+	try
+	{
+		const args = new Array<string>();
+
+		if (options.save)
+		{
+			args.push("--start-server", resolveSave(options.save, savesPath));
+		}
+		else if (options.scenario || options.mapGenSettings)
+		{
+			args.push("--start-server-load-scenario", options.scenario ?? "base/freeplay");
+			if (options.mapGenSettings)
+			{
+				const mapgenpath = path.join(dir, "map-gen-settings.json");
+				writeValidated(options.mapGenSettings, schemaDir, "mapgen.json", mapgenpath);
+				args.push("--map-gen-settings", mapgenpath);
+			}
+		}
+		else
+		{
+			args.push("--start-server-load-latest");
+		}
+
+		const settingspath = path.join(dir, "server-settings.json");
+		writeValidated(Object.assign({}, defaultServerSettings, options.settings), schemaDir, "serversettings.json", settingspath);
+		args.push("--server-settings", settingspath);
+
+		if (options.port)
+		{
+			args.push("--port", options.port.toString());
+		}
+		return { args: args, tempDir: dir };
+	}
+	catch (ex)
+	{
+		removeDir(dir);
+		throw ex;
+	}
+}
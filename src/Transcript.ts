@@ -0,0 +1,114 @@
+import { EventEmitter } from 'events';
+import { PassThrough, Writable } from 'stream';
+import * as fs from 'fs';
+import { Buffer } from 'buffer';
+
+type TranscriptStream = "stdin"|"stdout"|"stderr";
+
+/**
+ * One line of a transcript file. `time` is milliseconds since the process was started.
+ */
+interface TranscriptEntry {
+	time: number
+	stream?: TranscriptStream
+	data?: string // base64, as breakpoint updates are binary
+	exit?: number|string
+}
+
+/**
+ * Records everything exchanged with Factorio, one JSON entry per line.
+ */
+export class TranscriptWriter {
+	private readonly file: fs.WriteStream;
+	private readonly start = Date.now();
+	private failed = false;
+
+	/**
+	 * @param onError called once if the file can't be written, after which nothing more is recorded
+	 */
+	constructor(public readonly transcriptPath:string, onError:(error:Error)=>void)
+	{
+		this.file = fs.createWriteStream(transcriptPath, { flags: "w" });
+		this.file.on("error", (error)=>{
+			if (this.failed) { return; }
+			this.failed = true;
+			onError(error);
+		});
+	}
+
+	private write(entry:TranscriptEntry)
+	{
+		if (this.failed) { return; }
+		this.file.write(JSON.stringify(entry) + "\n");
+	}
+
+	public record(stream:TranscriptStream, data:Buffer)
+	{
+		this.write({ time: Date.now() - this.start, stream: stream, data: data.toString("base64") });
+	}
+
+	public exit(code:number|string)
+	{
+		this.write({ time: Date.now() - this.start, exit: code });
+		if (!this.failed) { this.file.end(); }
+	}
+}
+
+/**
+ * Stands in for the Factorio process, playing back stdout and stderr from a
+ * transcript with the original timing. Anything written to stdin is discarded.
+ */
+export class TranscriptReplay extends EventEmitter {
+	public readonly stdin = new Writable({ write: (chunk, encoding, callback)=>callback() });
+	public readonly stdout = new PassThrough();
+	public readonly stderr = new PassThrough();
+	public readonly pid = 0;
+
+	private readonly timers = new Array<NodeJS.Timeout>();
+	private exited = false;
+
+	constructor(transcriptPath:string)
+	{
+		super();
+		const entries:TranscriptEntry[] = fs.readFileSync(transcriptPath, "utf8")
+			.split("\n")
+			.filter(line=>line.trim())
+			.map(line=>JSON.parse(line));
+
+		entries.forEach(entry=>{
+			if (entry.exit !== undefined)
+			{
+				this.timers.push(setTimeout(()=>this.finish(entry.exit!), entry.time));
+			}
+			else if (entry.stream === "stdout" || entry.stream === "stderr")
+			{
+				const stream = this[entry.stream];
+				const data = Buffer.from(entry.data ?? "", "base64");
+				this.timers.push(setTimeout(()=>stream.write(data), entry.time));
+			}
+		});
+	}
+
+	private finish(exit:number|string)
+	{
+		if (this.exited) { return; }
+		this.exited = true;
+		this.timers.forEach(timer=>clearTimeout(timer));
+		this.stdout.end();
+		this.stderr.end();
+		if (typeof exit === "number")
+		{
+			this.emit("exit", exit, null);
+		}
+		else
+		{
+			this.emit("exit", null, exit);
+		}
+	}
+
+	public kill(signal?:string)
+	{
+		this.finish(signal ?? "SIGTERM");
+		return true;
+	}
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { Buffer } from 'buffer';
+import { DebugHost, LuaErrorProblem, ProfileView } from './DebugHost';
+import { ModListSnapshots } from './ModListSnapshots';
+import { Profile } from './Profile';
+import { BenchmarkResult } from './Benchmark';
+import { showBenchmarkResults } from './BenchmarkView';
+
+// a launch configuration as written in launch.json, with only the parts that are edited here typed
+interface LaunchConfiguration {
+	type: string
+	name: string
+	adjustMods?: {[key:string]:boolean|string}
+	[key:string]: unknown
+}
+
+/**
+ * Draws profile timings on whichever editor is active.
+ */
+class ProfileDecorations implements ProfileView {
+	private readonly profile = new Profile();
+	private readonly editorChanged: vscode.Disposable;
+
+	constructor(private readonly clientPathToDebugger:(uri:string)=>string)
+	{
+		this.editorChanged = vscode.window.onDidChangeActiveTextEditor(editor=>this.render(editor));
+	}
+
+	private render(editor?:vscode.TextEditor)
+	{
+		if (editor && (editor.document.uri.scheme==="file"||editor.document.uri.scheme==="zip"))
+		{
+			const profname = this.clientPathToDebugger(editor.document.uri.toString());
+			this.profile.render(editor,profname);
+		}
+	}
+
+	public parse(profile:string)
+	{
+		this.profile.parse(profile);
+		this.render(vscode.window.activeTextEditor);
+	}
+
+	public dispose()
+	{
+		this.editorChanged.dispose();
+		this.profile.dispose();
+	}
+}
+
+/**
+ * Runs debug sessions inline in the extension, reporting to the shared
+ * output channel and problems collection.
+ */
+export class VSCodeDebugHost implements DebugHost {
+	public readonly extensionPath = vscode.extensions.getExtension("justarandomgeek.factoriomod-debug")?.extensionPath;
+	public readonly workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	public readonly zipExplorer = vscode.extensions.getExtension("slevesque.vscode-zipexplorer") ? {
+		clear: ()=>{ vscode.commands.executeCommand("zipexplorer.clear"); },
+		explore: (uri:string)=>{ vscode.commands.executeCommand("zipexplorer.exploreZipFile", vscode.Uri.parse(uri)); },
+	} : undefined;
+
+	/**
+	 * @param luaErrors problems from Factorio's output, kept after the session ends
+	 */
+	constructor(
+		public readonly output: vscode.OutputChannel,
+		private readonly luaErrors: vscode.DiagnosticCollection,
+		public readonly modListSnapshots: ModListSnapshots) {}
+
+	public async showMessage(severity:"information"|"warning"|"error", message:string, ...choices:string[])
+	{
+		switch (severity) {
+			case "information":
+				return vscode.window.showInformationMessage(message, ...choices);
+			case "warning":
+				return vscode.window.showWarningMessage(message, ...choices);
+			case "error":
+				return vscode.window.showErrorMessage(message, ...choices);
+		}
+	}
+
+	public async findWorkspaceFiles(glob:string)
+	{
+		return (await vscode.workspace.findFiles(glob)).map(uri=>uri.toString());
+	}
+
+	public async stat(uri:string)
+	{
+		try
+		{
+			const stat = await vscode.workspace.fs.stat(vscode.Uri.parse(uri));
+			// eslint-disable-next-line no-bitwise
+			return stat.type & vscode.FileType.Directory ? "directory" : "file";
+		}
+		catch (ex)
+		{
+			if ((<vscode.FileSystemError>ex).code === "FileNotFound") { return undefined; }
+			throw ex;
+		}
+	}
+
+	public async readFile(uri:string)
+	{
+		return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.parse(uri)));
+	}
+
+	public async runCompileTasks()
+	{
+		const tasks = (await vscode.tasks.fetchTasks({type:"factorio"})).filter(
+			(task)=>task.definition.command === "compile"
+			);
+
+		if (tasks.length > 0)
+		{
+			this.output.appendLine(`Running ${tasks.length} compile tasks: ${tasks.map(task=>task.name).join(", ")}`);
+			await Promise.all(tasks.map(this.runTask));
+		}
+	}
+
+	private async runTask(task: vscode.Task) {
+		const execution = await vscode.tasks.executeTask(task);
+
+		return new Promise<void>(resolve => {
+			let disposable = vscode.tasks.onDidEndTask(e => {
+				if (e.execution === execution) {
+					disposable.dispose();
+					resolve();
+				}
+			});
+		});
+	}
+
+	public clearLuaErrors()
+	{
+		this.luaErrors.clear();
+	}
+
+	public setLuaErrors(uri:string, problems:LuaErrorProblem[])
+	{
+		this.luaErrors.set(vscode.Uri.parse(uri), problems.map(problem=>{
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(problem.line-1, 0, problem.line-1, Number.MAX_SAFE_INTEGER),
+				problem.message, vscode.DiagnosticSeverity.Error);
+			diagnostic.source = "factorio";
+			diagnostic.relatedInformation = problem.traceback.map(frame=>new vscode.DiagnosticRelatedInformation(
+				new vscode.Location(vscode.Uri.parse(frame.uri), new vscode.Position(frame.line-1, 0)),
+				frame.text));
+			return diagnostic;
+		}));
+	}
+
+	public createProfileView(clientPathToDebugger:(uri:string)=>string)
+	{
+		return new ProfileDecorations(clientPathToDebugger);
+	}
+
+	public showBenchmarkResults(results:{ label:string; result:BenchmarkResult }[])
+	{
+		showBenchmarkResults(results);
+	}
+
+	public async saveAdjustMods(configurationName:string, adjust:{[key:string]:boolean|string})
+	{
+		for (const folder of vscode.workspace.workspaceFolders ?? [])
+		{
+			const launch = vscode.workspace.getConfiguration("launch", folder.uri);
+			// values from getConfiguration are read-only, so edit a copy
+			const configurations:LaunchConfiguration[] = JSON.parse(JSON.stringify(launch.get<LaunchConfiguration[]>("configurations") ?? []));
+			const config = configurations.find(c=>c.type === "factoriomod" && c.name === configurationName);
+			if (config)
+			{
+				config.adjustMods = Object.assign(config.adjustMods ?? {}, adjust);
+				await launch.update("configurations", configurations, vscode.ConfigurationTarget.WorkspaceFolder);
+				return true;
+			}
+		}
+		return false;
+	}
+}
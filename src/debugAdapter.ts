@@ -1,3 +1,10 @@
- import { FactorioModDebugSession } from './factorioModDebug';
+import { FactorioModDebugSession } from './factorioModDebug';
+import { StandaloneDebugHost } from './DebugHost';
 
- FactorioModDebugSession.run(FactorioModDebugSession);
+// as DebugSession.run does for a single session on stdio, but with a host to give it
+// FACTORIOMOD_DEBUG_EXTENSION may point to another copy of the extension, for its mod package
+const session = new FactorioModDebugSession(new StandaloneDebugHost(process.env.FACTORIOMOD_DEBUG_EXTENSION || undefined));
+process.on('SIGTERM', () => {
+	session.shutdown();
+});
+session.start(process.stdin, process.stdout);
@@ -8,19 +8,52 @@ import { FactorioModDebugSession } from './factorioModDebug';
 import { validateLocale, LocaleColorProvider, LocaleDocumentSymbolProvider } from './LocaleLangProvider';
 import { ChangelogCodeActionProvider, validateChangelogTxt, ChangelogDocumentSymbolProvider } from './ChangeLogLangProvider';
 import { ModsTreeDataProvider } from './ModPackageProvider';
+import { ModListSnapshots } from './ModListSnapshots';
+import { loadModSets, resolveModSet, ModSetError } from './ModSets';
+import { createSandbox } from './Sandbox';
+import { FactorioVersionCache, compareFactorioVersions } from './FactorioVersion';
+import { FactorioInstalls } from './FactorioInstalls';
+import { serverArguments, resolveSave, LaunchOptionsError } from './ServerLaunch';
+import { gameArguments, listSaves } from './GameLaunch';
+import { compareBenchmarks } from './BenchmarkView';
+import { VSCodeDebugHost } from './VSCodeDebugHost';
 
 let diagnosticCollection: vscode.DiagnosticCollection;
 
 export function activate(context: vscode.ExtensionContext) {
-	const provider = new FactorioModConfigurationProvider();
+	const versions = new FactorioVersionCache(context.globalState);
+	const installs = new FactorioInstalls(versions);
+	const provider = new FactorioModConfigurationProvider(versions, installs);
 	context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('factoriomod', provider));
+	context.subscriptions.push(
+		vscode.commands.registerCommand("factorio.selectInstall", ()=>installs.pick()));
+
+	// put back any mod-list.json left behind by a session that didn't end cleanly
+	const snapshots = new ModListSnapshots(context.globalStoragePath);
+	const restored = snapshots.restoreAbandoned();
+	if (restored.length > 0)
+	{
+		vscode.window.showInformationMessage(`Restored mod-list.json after an interrupted debug session in ${restored.join(", ")}`);
+	}
+
+	const output = vscode.window.createOutputChannel("Factorio Mod Debug");
+	context.subscriptions.push(output);
+	const luaErrors = vscode.languages.createDiagnosticCollection("factorio-lua");
+	context.subscriptions.push(luaErrors);
 
 	// debug adapters can be run in different ways by using a vscode.DebugAdapterDescriptorFactory:
-	let factory = new InlineDebugAdapterFactory();
+	let factory = new InlineDebugAdapterFactory(output, luaErrors, snapshots);
 
 	context.subscriptions.push(vscode.debug.registerDebugAdapterDescriptorFactory('factoriomod', factory));
 	context.subscriptions.push(factory);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand("factorio.eventBreakpoints", selectEventBreakpoints));
+	context.subscriptions.push(
+		vscode.commands.registerCommand("factorio.compareBenchmarks", compareBenchmarks));
+	context.subscriptions.push(
+		vscode.debug.onDidReceiveDebugSessionCustomEvent(startMultiplayerClients));
+
 
 	diagnosticCollection = vscode.languages.createDiagnosticCollection('factorio-changelog');
 	context.subscriptions.push(diagnosticCollection);
@@ -72,6 +105,53 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 }
 
+async function selectEventBreakpoints() {
+	const session = vscode.debug.activeDebugSession;
+	if (!session || session.type !== "factoriomod")
+	{
+		vscode.window.showInformationMessage("Event breakpoints require an active Factorio Mod Debug session");
+		return;
+	}
+	const current:{events:string[];enabled:string[]} = await session.customRequest("getEventBreakpoints");
+	if (current.events.length === 0)
+	{
+		vscode.window.showInformationMessage("Event list not available yet");
+		return;
+	}
+	const picked = await vscode.window.showQuickPick(
+		current.events.map(event=>{
+			return { label: event, picked: current.enabled.includes(event) };
+		}),
+		{ canPickMany: true, placeHolder: "Select events to break on" });
+	if (picked)
+	{
+		await session.customRequest("setEventBreakpoints", { events: picked.map(item=>item.label) });
+	}
+}
+
+/**
+ * Start the clients for a multiplayer session once its server is accepting connections.
+ */
+async function startMultiplayerClients(event: vscode.DebugSessionCustomEvent)
+{
+	if (event.event !== "factorio.serverReady") { return; }
+	const config = event.session.configuration;
+	const template = config.clientConfiguration;
+	if (!template) { return; }
+	for (let i = 1; i <= config.clients; i++)
+	{
+		const client = Object.assign({}, template, {
+			name: `${config.name} client ${i}`,
+			instanceName: `client ${i}`,
+			playerName: `client${i}`,
+		});
+		await vscode.debug.startDebugging(event.session.workspaceFolder, client, {
+			parentSession: event.session,
+			consoleMode: vscode.DebugConsoleMode.MergeWithParent,
+		});
+	}
+}
+
 export function deactivate() {
 	// nothing to do
 }
@@ -109,6 +189,51 @@ function translatePath(thispath:string,factorioPath:string):string {
 	return thispath;
 }
 
+/**
+ * Warn about workspace mods that won't load in Factorio `version`.
+ */
+async function checkWorkspaceFactorioVersions(version:string)
+{
+	const [major,minor] = version.split(".");
+	const gameVersion = `${major}.${minor}`;
+	const mismatched = new Array<string>();
+	const infos = await vscode.workspace.findFiles("**/info.json");
+	infos.forEach(uri=>{
+		try
+		{
+			const info = JSON.parse(fs.readFileSync(uri.fsPath,"utf8"));
+			if (!info.name || !info.factorio_version) { return; }
+			// 1.0 still loads mods made for 0.18
+			if (info.factorio_version === gameVersion || (gameVersion === "1.0" && info.factorio_version === "0.18")) { return; }
+			mismatched.push(`${info.name} (${info.factorio_version})`);
+		}
+		catch (ex) {}
+	});
+	if (mismatched.length > 0)
+	{
+		vscode.window.showWarningMessage(`Factorio ${version} will not load workspace mods for other versions: ${mismatched.join(", ")}`);
+	}
+}
+
+/**
+ * Write a minimal config.ini with the same read-data/write-data paths the game would use by default.
+ */
+function generateConfigIni(configPath:string,factorioPath:string)
+{
+	// portable installs have config-path.cfg with use-system-read-write-data-directories=false
+	const cfgpath = path.resolve(path.dirname(factorioPath), "../../config-path.cfg" );
+	const portable = fs.existsSync(cfgpath) &&
+		ini.parse(fs.readFileSync(cfgpath,"utf8"))["use-system-read-write-data-directories"] === false;
+	const configdata:FactorioConfigIni = {
+		path: {
+			"read-data": translatePath(portable ? "__PATH__executable__/../../data" : "__PATH__system-read-data__",factorioPath),
+			"write-data": translatePath(portable ? "__PATH__executable__/../.." : "__PATH__system-write-data__",factorioPath),
+		}
+	};
+	fs.mkdirSync(path.dirname(configPath),{recursive:true});
+	fs.writeFileSync(configPath,ini.stringify(configdata),"utf8");
+}
+
 interface FactorioConfigIni {
 	path?:{
 		"read-data"?:string
@@ -121,26 +246,44 @@ interface FactorioConfigIni {
 
 class FactorioModConfigurationProvider implements vscode.DebugConfigurationProvider {
 
+	constructor(
+		private readonly versions: FactorioVersionCache,
+		private readonly installs: FactorioInstalls) {}
+
 	/**
 	 * Massage a debug configuration just before a debug session is being launched,
 	 * e.g. add all missing attributes to the debug configuration.
 	 */
 	async resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration, token?: vscode.CancellationToken): Promise<vscode.DebugConfiguration|undefined> {
+		// clients are launched from the configuration as written, before any of it is resolved for the server
+		const clientConfiguration = config.clients ? JSON.parse(JSON.stringify(config)) : undefined;
+
+		if (config.replayTranscript)
+		{
+			// a replayed session doesn't launch Factorio, so needs none of its paths
+			if (!fs.existsSync(config.replayTranscript))
+			{
+				vscode.window.showInformationMessage(`Transcript "${config.replayTranscript}" not found`);
+				return undefined;	// abort launch
+			}
+			return config;
+		}
+
 		// factorio path exists and is a file (and is a binary?)
 
-		if (!config.factorioPath) {
-			let factorioPath = await vscode.window.showOpenDialog({
-				canSelectFiles: true,
-				canSelectFolders: false,
-				openLabel: "Select Factorio binary",
-				filters: {
-					"": ["exe", ""]
-				}
-			});
-			if (factorioPath)
+		if (config.factorioInstall)
+		{
+			const install = await this.installs.find(config.factorioInstall);
+			if (!install)
 			{
-				config.factorioPath = factorioPath[0].fsPath;
+				vscode.window.showInformationMessage(`Factorio installation "${config.factorioInstall}" not found in factorio.installs`);
+				return undefined;	// abort launch
 			}
+			config.factorioPath = install.factorioPath;
+		}
+
+		if (!config.factorioPath) {
+			config.factorioPath = await this.installs.pick();
 		}
 
 		if(!config.factorioPath || !fs.existsSync(config.factorioPath) ){
@@ -183,16 +326,14 @@ class FactorioModConfigurationProvider implements vscode.DebugConfigurationProvi
 
 		if (!fs.existsSync(config.configPath))
 		{
-			if (config.configPathDetected)
-			{
-				vscode.window.showInformationMessage("Unable to detect config.ini location. New Factorio install? Try just launching the game directly once first to create one.");
-				return undefined;	// abort launch
-			}
-			else
+			const generate = await vscode.window.showInformationMessage(
+				`${config.configPathDetected?"Unable to detect config.ini location":"Specified config.ini not found"}. New Factorio install? Generate one at ${config.configPath}, or try just launching the game directly once first to create one.`,
+				"Generate config.ini");
+			if (generate !== "Generate config.ini")
 			{
-				vscode.window.showInformationMessage("Specified config.ini not found. New Factorio install? Try just launching the game directly once first to create one.");
 				return undefined;	// abort launch
 			}
+			generateConfigIni(config.configPath,config.factorioPath);
 		}
 
 		let configdata:FactorioConfigIni = ini.parse(fs.readFileSync(config.configPath,"utf8"));
@@ -224,6 +365,22 @@ class FactorioModConfigurationProvider implements vscode.DebugConfigurationProvi
 		}
 		config.dataPath = path.posix.normalize(translatePath(configDataPath,config.factorioPath));
 
+		const version = await this.versions.get(config.factorioPath,config.dataPath);
+		if (version)
+		{
+			config.factorioVersion = version;
+			if (compareFactorioVersions(version.version,"0.18.10") < 0 && config.useInstrumentMode !== false)
+			{
+				vscode.window.showWarningMessage(`Instrument Mode requires Factorio >= 0.18.10, but ${version.version} was found. Only mods that require debugadapter will be debuggable.`);
+				config.useInstrumentMode = false;
+			}
+			checkWorkspaceFactorioVersions(version.version);
+		}
+		else
+		{
+			vscode.window.showWarningMessage(`Unable to detect Factorio version of ${config.factorioPath}, version-dependent features will assume the latest version.`);
+		}
+
 		if (config.modsPath)
 		{
 			let modspath = path.posix.normalize(config.modsPath);
@@ -250,14 +407,188 @@ class FactorioModConfigurationProvider implements vscode.DebugConfigurationProvi
 				translatePath(configModsPath,config.factorioPath),"mods"));
 		}
 
+		if (config.modSet)
+		{
+			try
+			{
+				// mods named directly in adjustMods take priority over the set
+				config.adjustMods = Object.assign(resolveModSet(config.modSet, loadModSets(folder)), config.adjustMods);
+			}
+			catch (ex)
+			{
+				if (!(ex instanceof ModSetError)) { throw ex; }
+				vscode.window.showErrorMessage(ex.message);
+				return undefined;	// abort launch
+			}
+		}
+
+		if (clientConfiguration)
+		{
+			if (!config.server)
+			{
+				vscode.window.showInformationMessage("clients requires server");
+				return undefined;	// abort launch
+			}
+			if (config.factorioVersion?.edition === "headless" && !config.clientFactorioPath && !config.clientFactorioInstall)
+			{
+				vscode.window.showInformationMessage("Headless Factorio can't run clients, set clientFactorioPath or clientFactorioInstall");
+				return undefined;	// abort launch
+			}
+			// every instance needs its own write-data
+			config.sandbox = true;
+			config.instanceName = "server";
+			if (config.server === true) { config.server = {}; }
+			if (!config.server.save && !config.server.scenario)
+			{
+				// a new sandbox has no saves to load the latest of
+				config.server.scenario = "base/freeplay";
+			}
+			delete clientConfiguration.server;
+			delete clientConfiguration.clients;
+			clientConfiguration.factorioPath = config.clientFactorioPath ?? (config.clientFactorioInstall ? undefined : config.factorioPath);
+			clientConfiguration.factorioInstall = config.clientFactorioInstall;
+			clientConfiguration.sandbox = true;
+			clientConfiguration.factorioArgs = (clientConfiguration.factorioArgs ?? []).concat(
+				"--mp-connect", `localhost:${config.server.port ?? 34197}`);
+			config.clientConfiguration = clientConfiguration;
+		}
+
+		// check options that conflict before any of them create temporary files
+		if (config.server && (config.loadSave || config.loadLatest || config.loadScenario || config.createMap))
+		{
+			vscode.window.showInformationMessage("loadSave, loadLatest, loadScenario and createMap can't be used with server, use server.save or server.scenario instead");
+			return undefined;	// abort launch
+		}
+		if (config.benchmark && (config.server || config.loadSave || config.loadLatest || config.loadScenario || config.createMap))
+		{
+			vscode.window.showInformationMessage("benchmark can't be used with server, loadSave, loadLatest, loadScenario or createMap");
+			return undefined;	// abort launch
+		}
+
+		if (config.server)
+		{
+			if (args?.some(arg=>arg.startsWith("--start-server")))
+			{
+				vscode.window.showInformationMessage("Factorio --start-server options are set by server and should not be included in factorioArgs");
+				return undefined;	// abort launch
+			}
+			const ext = vscode.extensions.getExtension("justarandomgeek.factoriomod-debug");
+			try
+			{
+				const server = serverArguments(
+					config.server === true ? {} : config.server,
+					path.resolve(config.modsPath, "../saves"),
+					path.resolve(ext ? ext.extensionPath : path.resolve(__dirname, ".."), "./schema"));
+				config.factorioArgs = (args ?? []).concat(server.args);
+				config.tempDirs = [server.tempDir];
+			}
+			catch (ex)
+			{
+				if (!(ex instanceof LaunchOptionsError)) { throw ex; }
+				vscode.window.showErrorMessage(ex.message);
+				return undefined;	// abort launch
+			}
+		}
+
+		if (config.loadSave === true)
+		{
+			const saves = listSaves(path.resolve(config.modsPath, "../saves"));
+			const picked = await vscode.window.showQuickPick(
+				saves.map((save):vscode.QuickPickItem=>{
+					return { label: save.name, description: save.mtime.toLocaleString(), detail: save.path };
+				}),
+				{ placeHolder: "Select save to load" });
+			if (!picked)
+			{
+				return undefined;	// abort launch
+			}
+			config.loadSave = picked.detail;
+		}
+
+		if (config.loadSave || config.loadLatest || config.loadScenario || config.createMap)
+		{
+			if (args?.some(arg=>["--load-game","--load-scenario","--create"].includes(arg)))
+			{
+				vscode.window.showInformationMessage("Factorio --load-game, --load-scenario and --create options are set by loadSave, loadLatest, loadScenario and createMap and should not be included in factorioArgs");
+				return undefined;	// abort launch
+			}
+			const ext = vscode.extensions.getExtension("justarandomgeek.factoriomod-debug");
+			try
+			{
+				const game = gameArguments({
+					loadSave: config.loadSave,
+					loadLatest: config.loadLatest,
+					loadScenario: config.loadScenario,
+					createMap: config.createMap,
+				},
+					path.resolve(config.modsPath, "../saves"), config.dataPath, config.modsPath,
+					path.resolve(ext ? ext.extensionPath : path.resolve(__dirname, ".."), "./schema"));
+				config.factorioArgs = (args ?? []).concat(game.args);
+				config.createMapArgs = game.createMap;
+				if (game.tempDir)
+				{
+					config.tempDirs = [game.tempDir];
+				}
+			}
+			catch (ex)
+			{
+				if (!(ex instanceof LaunchOptionsError)) { throw ex; }
+				vscode.window.showErrorMessage(ex.message);
+				return undefined;	// abort launch
+			}
+		}
+
+		if (config.benchmark)
+		{
+			if (args?.some(arg=>arg.startsWith("--benchmark")))
+			{
+				vscode.window.showInformationMessage("Factorio --benchmark options are set by benchmark and should not be included in factorioArgs");
+				return undefined;	// abort launch
+			}
+			try
+			{
+				config.benchmarkSave = resolveSave(config.benchmark.save, path.resolve(config.modsPath, "../saves"));
+			}
+			catch (ex)
+			{
+				if (!(ex instanceof LaunchOptionsError)) { throw ex; }
+				vscode.window.showErrorMessage(ex.message);
+				return undefined;	// abort launch
+			}
+			// timings from an instrumented or paused game would be meaningless
+			config.noDebug = true;
+			config.factorioArgs = (args ?? []).concat(
+				"--benchmark", config.benchmarkSave,
+				"--benchmark-ticks", (config.benchmark.ticks ?? 1000).toString(),
+				"--benchmark-runs", (config.benchmark.runs ?? 1).toString(),
+				"--benchmark-verbose", "wholeUpdate",
+				"--disable-audio");
+		}
+
+		if (config.sandbox)
+		{
+			const sandbox = createSandbox(configdata, config.modsPath, config.adjustMods, config.playerName);
+			config.sandboxPath = sandbox.sandboxPath;
+			config.configPath = sandbox.configPath;
+			config.configPathDetected = false;
+			config.modsPath = sandbox.modsPath;
+			config.modsPathDetected = false;
+		}
+
 		return config;
 	}
 }
 
 class InlineDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
 
+	constructor(
+		private readonly output: vscode.OutputChannel,
+		private readonly luaErrors: vscode.DiagnosticCollection,
+		private readonly snapshots: ModListSnapshots) {}
+
 	createDebugAdapterDescriptor(_session: vscode.DebugSession): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
-		return new vscode.DebugAdapterInlineImplementation(new FactorioModDebugSession());
+		const session = new FactorioModDebugSession(new VSCodeDebugHost(this.output, this.luaErrors, this.snapshots));
+		return new vscode.DebugAdapterInlineImplementation(session);
 	}
 
 	dispose()
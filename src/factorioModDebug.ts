@@ -1,13 +1,16 @@
 import {
 	Logger, logger,
 	LoggingDebugSession,
-	TerminatedEvent, StoppedEvent, OutputEvent,
-	Thread, Source, Module, ModuleEvent, InitializedEvent
+	TerminatedEvent, StoppedEvent, ContinuedEvent, OutputEvent, BreakpointEvent,
+	Thread, Source, Module, ModuleEvent, InitializedEvent, LoadedSourceEvent, Event
 } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import * as path from 'path';
 import { FactorioModRuntime, LaunchRequestArguments } from './factorioModRuntime';
-import { Uri } from 'vscode';
+import { PendingRequestError } from './PendingRequests';
+import { DebugHost } from './DebugHost';
+import { modCommands, EvaluateResponseBody } from './ModProtocol';
+import { URI } from 'vscode-uri';
 
 export class FactorioModDebugSession extends LoggingDebugSession {
 
@@ -16,18 +19,21 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 
 	private _runtime: FactorioModRuntime;
 
+	// prefix for output, to tell multiplayer instances apart in a shared console
+	private instanceName?: string;
+
 	/**
 	 * Creates a new debug adapter that is used for one debug session.
 	 * We configure the default implementation of a debug adapter here.
 	 */
-	public constructor() {
+	public constructor(host: DebugHost) {
 		super();
 
 		// this debugger uses zero-based lines and columns
 		this.setDebuggerLinesStartAt1(true);
 		this.setDebuggerColumnsStartAt1(true);
 
-		this._runtime = new FactorioModRuntime();
+		this._runtime = new FactorioModRuntime(host);
 
 		// setup event handlers
 		this._runtime.on('stopOnEntry', () => {
@@ -36,9 +42,23 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		this._runtime.on('stopOnStep', () => {
 			this.sendEvent(new StoppedEvent('step', FactorioModDebugSession.THREAD_ID));
 		});
+		this._runtime.on('stopOnPause', () => {
+			this.sendEvent(new StoppedEvent('pause', FactorioModDebugSession.THREAD_ID));
+		});
 		this._runtime.on('stopOnBreakpoint', () => {
 			this.sendEvent(new StoppedEvent('breakpoint', FactorioModDebugSession.THREAD_ID));
 		});
+		this._runtime.on('stopOnFunctionBreakpoint', () => {
+			this.sendEvent(new StoppedEvent('function breakpoint', FactorioModDebugSession.THREAD_ID));
+		});
+		this._runtime.on('stopOnEventBreakpoint', (event:string) => {
+			const e: DebugProtocol.StoppedEvent = new StoppedEvent('event breakpoint', FactorioModDebugSession.THREAD_ID);
+			e.body.description = `Paused on event breakpoint ${event}`;
+			this.sendEvent(e);
+		});
+		this._runtime.on('breakpointChanged', (breakpoint:DebugProtocol.Breakpoint) => {
+			this.sendEvent(new BreakpointEvent('changed', this.convertBreakpointToClient(breakpoint)));
+		});
 		this._runtime.on('stopOnException', (exceptionText:string) => {
 			this.sendEvent(new StoppedEvent('exception', FactorioModDebugSession.THREAD_ID,exceptionText));
 		});
@@ -47,11 +67,14 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 				this.sendEvent(new ModuleEvent('new', module));
 			});
 		});
+		this._runtime.on('loadedSource', (source:Source) => {
+			this.sendEvent(new LoadedSourceEvent('new', source));
+		});
 		this._runtime.on('initialize', () => {
 			this.sendEvent(new InitializedEvent());
 		});
 		this._runtime.on('output', (text, category, filePath, line, column, variablesReference) => {
-			const e: DebugProtocol.OutputEvent = new OutputEvent(`${text}\n`);
+			const e: DebugProtocol.OutputEvent = new OutputEvent(`${this.instanceName ? `[${this.instanceName}] ` : ""}${text}\n`);
 			if (category) {
 				e.body.category = category;
 			}
@@ -69,6 +92,9 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 			}
 			this.sendEvent(e);
 		});
+		this._runtime.on('serverReady', () => {
+			this.sendEvent(new Event('factorio.serverReady'));
+		});
 		this._runtime.on('end', () => {
 			this.sendEvent(new TerminatedEvent());
 		});
@@ -85,6 +111,7 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 
 		response.body.supportsConditionalBreakpoints = true;
 		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsFunctionBreakpoints = true;
 		response.body.supportsEvaluateForHovers = true;
 		response.body.exceptionBreakpointFilters = [
 			{ filter: "pcall",  label: "Caught by pcall",  default:false },
@@ -93,7 +120,12 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		];
 		response.body.supportsSetVariable = true;
 		response.body.supportsModulesRequest = true;
+		response.body.supportsLoadedSourcesRequest = true;
+		response.body.supportsExceptionInfoRequest = true;
+		response.body.supportsCancelRequest = true;
 		response.body.supportsLogPoints = true;
+		response.body.supportsCompletionsRequest = true;
+		response.body.completionTriggerCharacters = [".",":"];
 
 		this.sendResponse(response);
 	}
@@ -113,6 +145,8 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		// make sure to 'Stop' the buffered logging if 'trace' is not set
 		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
 
+		this.instanceName = args.instanceName;
+
 		// start the program in the runtime
 		this._runtime.start(args);
 
@@ -129,19 +163,19 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		return this._runtime.convertDebuggerPathToClient(debuggerPath);
 	}
 
-	protected setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): void {
-		let bpuri:Uri;
+	protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments) {
+		let bpuri:URI;
 		let inpath = <string>args.source.path;
 		if (inpath.match(/^[a-zA-Z]:/)) // matches c:\... or c:/... style windows paths, single drive letter
 		{
-			bpuri = Uri.parse("file:/"+inpath.replace(/\\/g,"/"));
+			bpuri = URI.parse("file:/"+inpath.replace(/\\/g,"/"));
 		}
 		else // everything else is already a URI
 		{
-			bpuri = Uri.parse(inpath);
+			bpuri = URI.parse(inpath);
 		}
-		const actualBreakpoints = this._runtime.setBreakPoints(
-			this.convertClientPathToDebugger(bpuri.toString()),
+		const actualBreakpoints = await this._runtime.setBreakPoints(
+			bpuri.toString(),
 			(args.breakpoints || []).map((bp)=>{
 				bp.line = this.convertClientLineToDebugger(bp.line);
 				return bp;
@@ -150,11 +184,41 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 
 		// send back the actual breakpoint positions
 		response.body = {
-			breakpoints: actualBreakpoints
+			breakpoints: actualBreakpoints.map(this.convertBreakpointToClient,this)
 		};
 		this.sendResponse(response);
 	}
 
+	// breakpoints may have been moved to a line with code
+	private convertBreakpointToClient(breakpoint: DebugProtocol.Breakpoint): DebugProtocol.Breakpoint
+	{
+		if (breakpoint.line === undefined) { return breakpoint; }
+		return {...breakpoint, line: this.convertDebuggerLineToClient(breakpoint.line)};
+	}
+
+	protected setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments, request?: DebugProtocol.Request): void {
+		response.body = {
+			breakpoints: this._runtime.setFunctionBreakPoints(args.breakpoints)
+		};
+		this.sendResponse(response);
+	}
+
+	protected customRequest(command: string, response: DebugProtocol.Response, args: any, request?: DebugProtocol.Request): void {
+		switch (command) {
+			case "getEventBreakpoints":
+				response.body = this._runtime.eventBreakPoints();
+				this.sendResponse(response);
+				break;
+			case "setEventBreakpoints":
+				this._runtime.setEventBreakPoints(args.events ?? []);
+				this.sendResponse(response);
+				break;
+			default:
+				super.customRequest(command, response, args, request);
+				break;
+		}
+	}
+
 	protected threadsRequest(response: DebugProtocol.ThreadsResponse): void {
 
 		// runtime supports no threads so just return a default thread.
@@ -167,24 +231,26 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 	}
 
 	protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments) {
-
-		const startFrame = typeof args.startFrame === 'number' ? args.startFrame : 0;
-		const maxLevels = typeof args.levels === 'number' ? args.levels : 1000;
-		const endFrame = startFrame + maxLevels;
-
-		const stk = await this._runtime.stack(startFrame, endFrame);
-
-		response.body = { stackFrames: (stk||[]).map(
-			(frame) =>{
-				if (frame && frame.source && frame.source.path)
-				{
-					frame.source.path = this.convertDebuggerPathToClient(frame.source.path);
+		try {
+			const startFrame = typeof args.startFrame === 'number' ? args.startFrame : 0;
+			const maxLevels = typeof args.levels === 'number' ? args.levels : 1000;
+			const endFrame = startFrame + maxLevels;
+
+			const stk = await this._runtime.stack(startFrame, endFrame, response.request_seq);
+
+			response.body = { stackFrames: (stk||[]).map(
+				(frame) =>{
+					if (frame && frame.source && frame.source.path)
+					{
+						frame.source.path = this.convertDebuggerPathToClient(frame.source.path);
+					}
+					return frame;
 				}
-				return frame;
-			}
-		) };
-		this.sendResponse(response);
-
+			) };
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
 	}
 
 	protected async modulesRequest(response: DebugProtocol.ModulesResponse, args: DebugProtocol.ModulesArguments) {
@@ -193,25 +259,131 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		this.sendResponse(response);
 	}
 
-	protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments) {
-		const scopes = await this._runtime.scopes(args.frameId);
-		response.body = { scopes: scopes };
+	protected loadedSourcesRequest(response: DebugProtocol.LoadedSourcesResponse, args: DebugProtocol.LoadedSourcesArguments, request?: DebugProtocol.Request): void {
+		response.body = { sources: this._runtime.loadedSources() };
 		this.sendResponse(response);
 	}
 
+	protected async sourceRequest(response: DebugProtocol.SourceResponse, args: DebugProtocol.SourceArguments, request?: DebugProtocol.Request) {
+		try {
+			const content = await this._runtime.source(args.source?.sourceReference ?? args.sourceReference, response.request_seq);
+			response.body = {
+				content: content ?? "-- source text is only available while stopped in the mod that loaded it, for recently loaded chunks",
+				mimeType: "text/x-lua",
+			};
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
+	}
+
+	protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments) {
+		try {
+			const scopes = await this._runtime.scopes(args.frameId, response.request_seq);
+			response.body = { scopes: scopes };
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
+	}
+
 	protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, request?: DebugProtocol.Request) {
-		const vars = await this._runtime.vars(args.variablesReference,response.request_seq,args.filter,args.start,args.count);
-		response.body = { variables: vars };
-		this.sendResponse(response);
+		try {
+			const vars = await this._runtime.vars(args.variablesReference,response.request_seq,args.filter,args.start,args.count);
+			response.body = { variables: vars };
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
 	}
 
 	protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments, request?: DebugProtocol.Request) {
-		response.body = await this._runtime.setVar(args, response.request_seq);
-		this.sendResponse(response);
+		try {
+			response.body = await this._runtime.setVar(args, response.request_seq);
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
 	}
 
 	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments, request?: DebugProtocol.Request) {
-		response.body = await this._runtime.evaluate(args, response.request_seq);
+		try {
+			if (args.context === "repl" && args.expression.startsWith("."))
+			{
+				response.body = await this.consoleCommand(args.expression, response.request_seq);
+			}
+			else
+			{
+				response.body = await this._runtime.evaluate(args, response.request_seq);
+			}
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
+	}
+
+	/**
+	 * Debug console meta-commands, for game control without writing Lua.
+	 */
+	private async consoleCommand(line: string, seq: number): Promise<EvaluateResponseBody> {
+		const [command, ...words] = line.trim().split(/\s+/);
+		const argument = words.join(" ");
+		const result = (text:string, type?:string)=>{
+			return { result: text, type: type, variablesReference: 0, seq: seq };
+		};
+		switch (command) {
+			case ".save":
+				if (!argument) { return result("usage: .save <name>", "error"); }
+				return this._runtime.queueCommand(modCommands.save(argument, seq), seq);
+			case ".tick":
+			{
+				const ticks = Number(argument || "1");
+				if (!Number.isInteger(ticks) || ticks < 1) { return result("usage: .tick <n>", "error"); }
+				if (this._runtime.runTicks(ticks))
+				{
+					this.sendEvent(new ContinuedEvent(FactorioModDebugSession.THREAD_ID));
+				}
+				return result(`pausing after ${ticks} tick${ticks === 1 ? "" : "s"}`);
+			}
+			case ".speed":
+			{
+				const speed = Number(argument);
+				if (!argument || !(speed > 0)) { return result("usage: .speed <x>", "error"); }
+				return this._runtime.queueCommand(modCommands.setSpeed(speed, seq), seq);
+			}
+			case ".reload":
+				return this._runtime.queueCommand(modCommands.reloadScript(seq), seq);
+			case ".mods":
+				return result(this._runtime.modules()
+					.map((module:DebugProtocol.Module)=>`${module.name} ${module.version ?? ""}: ${module.symbolStatus ?? "Unknown"}`)
+					.join("\n"));
+			case ".gc":
+				return this._runtime.queueCommand(modCommands.luaMemory(seq), seq);
+			default:
+				return result(`unknown command ${command}, expected one of .save, .tick, .speed, .reload, .mods, .gc`, "error");
+		}
+	}
+
+	protected async completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments, request?: DebugProtocol.Request) {
+		try {
+			const targets = await this._runtime.completions({
+				frameId: args.frameId,
+				text: args.text,
+				column: this.convertClientColumnToDebugger(args.column),
+				line: args.line,
+			}, response.request_seq);
+			response.body = { targets: targets };
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
+	}
+
+	protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments, request?: DebugProtocol.Request): void {
+		if (args.requestId !== undefined)
+		{
+			this._runtime.cancel(args.requestId);
+		}
 		this.sendResponse(response);
 	}
 
@@ -220,6 +392,11 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		this.sendResponse(response);
 	}
 
+	protected pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments, request?: DebugProtocol.Request): void {
+		this._runtime.pause();
+		this.sendResponse(response);
+	}
+
 	protected nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
 		this._runtime.step("over");
 		this.sendResponse(response);
@@ -235,11 +412,34 @@ export class FactorioModDebugSession extends LoggingDebugSession {
 		this.sendResponse(response);
 	}
 
+	protected async exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments, request?: DebugProtocol.Request) {
+		try {
+			response.body = await this._runtime.exceptionInfo(response.request_seq);
+			this.sendResponse(response);
+		} catch (error) {
+			this.sendPendingError(response, error);
+		}
+	}
+
 	protected setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments, request?: DebugProtocol.Request): void {
 		this._runtime.setExceptionBreakpoints(args.filters);
 		this.sendResponse(response);
 	}
 
+	private sendPendingError(response: DebugProtocol.Response, error: unknown) {
+		if (error instanceof PendingRequestError && error.cancelled)
+		{
+			response.success = false;
+			response.message = "cancelled";
+			this.sendResponse(response);
+		}
+		else
+		{
+			// passed as a variable, so braces in Lua values aren't taken as placeholders
+			this.sendErrorResponse(response, { id: 1, format: "{message}", variables: { message: error instanceof Error ? error.message : `${error}` }, showUser: false });
+		}
+	}
+
 	private createSource(filePath: string): Source {
 		return new Source(path.basename(filePath), this.convertDebuggerPathToClient(filePath));
 	}
@@ -1,15 +1,25 @@
 import { EventEmitter } from 'events';
 import { spawn, ChildProcess } from 'child_process';
-import { Breakpoint, Scope, Variable, StackFrame, Module,} from 'vscode-debugadapter';
+import { Scope, Variable, StackFrame, Module, Source } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { BufferSplitter } from './BufferSplitter';
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as semver from 'semver';
 import { Buffer } from 'buffer';
-import { Profile } from './Profile';
+import { codeLines } from './LuaCodeLines';
+import { PendingRequests } from './PendingRequests';
+import { TranscriptWriter, TranscriptReplay } from './Transcript';
+import { findInstalledMods, checkDependencies } from './ModDependencies';
+import { FactorioVersion, compareFactorioVersions } from './FactorioVersion';
+import { ServerOptions, removeDir } from './ServerLaunch';
+import { GameOptions } from './GameLaunch';
+import { BenchmarkOptions, BenchmarkParser, saveBenchmarkResult } from './Benchmark';
+import { LuaErrorParser, LuaError, LuaErrorLocation } from './LuaErrors';
+import { ModMessageReader, modCommands, checkProtocolVersion, stdoutFraming, EvaluateResponseBody, ChunkId, ExceptionInfo } from './ModProtocol';
+import { DebugHost, LuaErrorProblem, ProfileView } from './DebugHost';
+import { URI } from 'vscode-uri';
 import treekill = require('tree-kill');
 
 
@@ -36,7 +46,7 @@ interface ModInfo{
 
 
 interface ModPaths{
-	uri: vscode.Uri
+	uri: URI
 	name: string
 	version: string
 	info: ModInfo
@@ -45,43 +55,73 @@ interface ModPaths{
 type HookMode = "debug"|"profile";
 
 export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
+	name?: string // name of the launch configuration
 	factorioPath: string // path of factorio binary to launch
+	factorioInstall?: string // name from `factorio.installs`, resolved to factorioPath by the configuration provider
+	factorioVersion?: FactorioVersion // detected by the configuration provider
 	nativeDebugger: string // path to native debugger if in use
 	modsPath: string // path of `mods` directory
 	modsPathDetected?: boolean
 	configPath: string // path to config.ini
 	configPathDetected?: boolean
-	dataPath: string // path of `data` directory, always comes from config.ini
+	dataPath: string // path of `data` directory, always comes from config.ini (optional with replayTranscript)
 	manageMod?: boolean
 	useInstrumentMode?: boolean
 	factorioArgs?: Array<string>
 	adjustMods?:{[key:string]:boolean|string}
+	modSet?:string // named mod set, already merged into adjustMods
 	disableExtraMods?:boolean
 	allowDisableBaseMod?:boolean
 	hookSettings?:boolean
 	hookData?:boolean
 	hookControl?:string[]|boolean
 	hookMode?:HookMode
+	hookLog?:boolean
+	keepOldLog?:boolean
 
 	profileSlowStart?: number
 	profileUpdateRate?: number
 
+	requestTimeout?: number
+
+	loadSave?: string|boolean // true to pick one when launching
+	loadLatest?: boolean
+	loadScenario?: string
+	createMap?: GameOptions["createMap"]
+	createMapArgs?: string[] // set by the configuration provider for `createMap`
+	benchmark?: BenchmarkOptions // run `--benchmark` on a save instead of debugging
+	benchmarkSave?: string // set by the configuration provider when `benchmark` is used
+	server?: ServerOptions|boolean // run as a multiplayer server
+	clients?: number // clients to start and connect once the server is running
+	clientFactorioPath?: string // binary for clients, if the server uses a headless one
+	clientFactorioInstall?: string
+	clientConfiguration?: LaunchRequestArguments // set by the configuration provider when `clients` is used
+	instanceName?: string // label for output when running several instances
+	playerName?: string // multiplayer username, only used with `sandbox`
+	sandbox?: boolean // run with a temporary write-data directory
+	sandboxPath?: string // set by the configuration provider when `sandbox` is used
+	tempDirs?: string[] // generated settings and maps, set by the configuration provider
+
+	transcriptPath?: string // record all stdio with Factorio to this file
+	replayTranscript?: string // play back a transcript instead of launching Factorio
+
 	/** enable logging the Debug Adapter Protocol */
 	trace?: boolean
 }
 
-interface EvaluateResponseBody {
-	result: string
-	type?: string
-	presentationHint?: DebugProtocol.VariablePresentationHint
-	variablesReference: number
-	namedVariables?: number
-	indexedVariables?: number
-
-	// sequence number of this eval
-	seq: number
-	// translation ID for time this eval ran
-	timer?: number
+interface LoadedChunk {
+	chunk: ChunkId
+	name: string
+	module: string // mod that loaded the chunk
+	sourceReference: number
+	content?: string
+	unavailable?: string // why the mod can't provide the text
+}
+
+interface SourceBreakpoints {
+	bps: DebugProtocol.SourceBreakpoint[]
+	breakpoints: DebugProtocol.Breakpoint[]
+	debugPath?: string // path the breakpoints were last sent to the mod for
 }
 
 type resolver<T> = (value?: T | PromiseLike<T> | undefined)=>void;
@@ -90,36 +130,62 @@ export class FactorioModRuntime extends EventEmitter {
 
 	private _breakPoints = new Map<string, DebugProtocol.SourceBreakpoint[]>();
 	private _breakPointsChanged = new Set<string>();
+	private _sourceBreakPoints = new Map<string, SourceBreakpoints>();
+
+	private _functionBreakPoints = new Array<{bp:DebugProtocol.FunctionBreakpoint;breakpoint:DebugProtocol.Breakpoint}>();
+	private _functionBreakPointsChanged = false;
+	private _nextBreakpointId = 1;
+
+	private _eventBreakPoints = new Set<string>();
+	private _eventBreakPointsChanged = false;
+	private _eventNames:string[] = [];
 
 	// unhandled only by default
 	private _exceptionFilters = new Set<string>(["unhandled"]);
 
 	private hasNativeDebug : boolean;
-	private _factorio : ChildProcess;
+	private _factorio?: ChildProcess;
+	private transcript?: TranscriptWriter;
+	private replaying = false;
+	// announced by the mod in `EVTprotocol`, checked at its first prompt
+	private modProtocolVersion?: number;
+	private protocolChecked = false;
 
-	private _stack?: resolver<StackFrame[]>;
 	private _modules = new Map<string,DebugProtocol.Module>();
-	private _scopes = new Map<number, resolver<Scope[]>>();
-	private _vars = new Map<number, resolver<Variable[]>>();
-	private _setvars = new Map<number, resolver<Variable>>();
-	private _evals = new Map<number, resolver<EvaluateResponseBody>>();
+	// requests to the mod waiting for an answer on stdout
+	private _pending = new PendingRequests(10000);
+	private _exceptionText?: string;
+	// details of the current exception stop, fetched once when it stops
+	private _exceptionInfo?: Promise<ExceptionInfo>;
+	private _loadedFiles = new Set<string>();
+	private _chunks = new Map<string, LoadedChunk>();
+	private _chunksByRef = new Map<number, LoadedChunk>();
+	private _nextSourceReference = 1;
 	private translations = new Map<number, string>();
 
 	private modsPath?: string; // absolute path of `mods` directory
 	private dataPath: string; // absolute path of `data` directory
-	private manageMod?: boolean;
 
 	private hookSettings:boolean;
 	private hookData:boolean;
 	private hookControl:string[]|boolean;
 
 	private hookMode:HookMode;
-	private profile?: Profile;
+	private profile?: ProfileView;
 	private profileSlowStart?: number;
 	private profileUpdateRate?: number;
 
 	private inPrompt:boolean = false;
+	private pauseRequested:boolean = false;
+	// the mods were told to pause, and none has stopped for it yet
+	private pauseSent = false;
 	private trace:boolean;
+	private waitingForServer = false;
+	private benchmark?: BenchmarkParser;
+	private canEvaluateRunning = false;
+	// console commands waiting for the next on_tick prompt
+	private queuedCommands = new Array<{seq:number; command:string}>();
+	private ticksUntilPause?: number;
 
 	private hookLog?:boolean;
 	private keepOldLog?:boolean;
@@ -127,78 +193,93 @@ export class FactorioModRuntime extends EventEmitter {
 	private workspaceModInfoReady:Promise<void>;
 	private workspaceModInfo = new Array<ModPaths>();
 
-	private workspaceModLists:Thenable<vscode.Uri[]>;
+	private workspaceModLists:Promise<string[]>;
+
+	// Lua errors from Factorio's output, by the URI of the file they are in
+	private luaErrorProblems = new Map<string, LuaErrorProblem[]>();
+	private luaErrorTracebacks = new Map<LuaError, { uri:string; problem:LuaErrorProblem }>();
 
-	private static output:vscode.OutputChannel;
+	// mod-list.json was changed for this session and must be put back
+	private modListChanged = false;
 
-	constructor() {
+	constructor(private readonly host: DebugHost) {
 		super();
-		FactorioModRuntime.output = FactorioModRuntime.output || vscode.window.createOutputChannel("Factorio Mod Debug");
-		FactorioModRuntime.output.appendLine("---------------------------------------------------------------------------------------------------");
-		this.workspaceModLists = vscode.workspace.findFiles("**/mod-list.json");
+		this.host.output.appendLine("---------------------------------------------------------------------------------------------------");
+		this.workspaceModLists = this.host.findWorkspaceFiles("**/mod-list.json");
 		this.workspaceModInfoReady = new Promise(async (resolve)=>{
-			const infos = await vscode.workspace.findFiles('**/info.json');
+			const infos = await this.host.findWorkspaceFiles('**/info.json');
 			infos.forEach(this.updateInfoJson,this);
 			resolve();
 		});
-		vscode.window.onDidChangeActiveTextEditor(editor =>{
-			if (editor && this.profile && (editor.document.uri.scheme==="file"||editor.document.uri.scheme==="zip"))
-			{
-				const profname = this.convertClientPathToDebugger(editor.document.uri.toString());
-				this.profile.render(editor,profname);
-			}
-		});
-	}
-
-
-	public async runTask(task: vscode.Task) {
-		const execution = await vscode.tasks.executeTask(task);
-
-		return new Promise<void>(resolve => {
-			let disposable = vscode.tasks.onDidEndTask(e => {
-				if (e.execution === execution) {
-					disposable.dispose();
-					resolve();
-				}
-			});
-		});
 	}
 
 	/**
 	 * Start executing the given program.
 	 */
 	public async start(args: LaunchRequestArguments) {
-		this.manageMod = args.manageMod;
+		this.replaying = !!args.replayTranscript;
+		if (this.replaying)
+		{
+			// don't touch mod-list.json for a game that isn't running
+			args.manageMod = false;
+		}
 		this.hookSettings = args.hookSettings ?? false;
 		this.hookData = args.hookData ?? false;
 		this.hookControl = args.hookControl ?? true;
 		this.hookMode = args.hookMode ?? "debug";
+		this.hookLog = args.hookLog;
+		this.keepOldLog = args.keepOldLog;
 		this.profileSlowStart = args.profileSlowStart;
 		this.profileUpdateRate = args.profileUpdateRate;
-		if (this.hookMode === "profile") {this.profile = new Profile();}
+		if (this.hookMode === "profile") {this.profile = this.host.createProfileView(uri=>this.convertClientPathToDebugger(uri));}
 		this.trace = args.trace ?? false;
+		this.waitingForServer = !!args.server;
+		this.benchmark = args.benchmark ? new BenchmarkParser() : undefined;
+		this.canEvaluateRunning = !args.noDebug;
+		this.host.clearLuaErrors();
+		this._pending.timeout = args.requestTimeout ?? 10000;
 
 
-		const tasks = (await vscode.tasks.fetchTasks({type:"factorio"})).filter(
-			(task)=>task.definition.command === "compile"
-			);
-
-		if (tasks.length > 0)
+		// a replayed session gets exactly what was recorded, so there's nothing to compile
+		if (!this.replaying)
 		{
-			FactorioModRuntime.output.appendLine(`Running ${tasks.length} compile tasks: ${tasks.map(task=>task.name).join(", ")}`);
-			await Promise.all(tasks.map(this.runTask));
+			await this.host.runCompileTasks();
 		}
 
-		FactorioModRuntime.output.appendLine(`using ${args.configPathDetected?"auto-detected":"manually-configured"} config.ini: ${args.configPath}`);
+		if (args.factorioVersion)
+		{
+			const version = args.factorioVersion;
+			this.host.output.appendLine(`using Factorio ${version.version}${version.build ? ` (build ${version.build}, ${version.platform}, ${version.edition})` : ""} from ${version.source}`);
+			if (!args.noDebug && (args.useInstrumentMode ?? true) && (args.hookLog ?? true) &&
+				compareFactorioVersions(version.version,"0.18.34") < 0)
+			{
+				this.host.output.appendLine(`Factorio < 0.18.34 requires the legacy \`log\` hook, which only catches calls directly from mod code`);
+			}
+		}
+		if (args.configPath)
+		{
+			this.host.output.appendLine(`using ${args.configPathDetected?"auto-detected":"manually-configured"} config.ini: ${args.configPath}`);
+		}
+		if (args.modSet && args.adjustMods)
+		{
+			this.host.output.appendLine(`using mod set "${args.modSet}":`);
+			for (const mod in args.adjustMods) {
+				if (args.adjustMods.hasOwnProperty(mod))
+				{
+					const adjust = args.adjustMods[mod];
+					this.host.output.appendLine(`  ${mod}: ${adjust === true ? "enabled" : adjust === false ? "disabled" : adjust}`);
+				}
+			}
+		}
 		const workspaceModLists = await this.workspaceModLists;
 		if (workspaceModLists.length > 1)
 		{
-			FactorioModRuntime.output.appendLine(`multiple mod-list.json in workspace`);
+			this.host.output.appendLine(`multiple mod-list.json in workspace`);
 		}
-		else if (workspaceModLists.length === 1)
+		else if (workspaceModLists.length === 1 && !args.sandboxPath)
 		{
-			const workspaceModList = workspaceModLists[0];
-			FactorioModRuntime.output.appendLine(`found mod-list.json in workspace: ${workspaceModList.toString()}`);
+			const workspaceModList = URI.parse(workspaceModLists[0]);
+			this.host.output.appendLine(`found mod-list.json in workspace: ${workspaceModList.toString()}`);
 			args.modsPath = path.dirname(workspaceModList.path);
 			args.modsPathDetected = false;
 			if (os.platform() === "win32" && args.modsPath.startsWith("/")) {args.modsPath = args.modsPath.substr(1);}
@@ -208,27 +289,38 @@ export class FactorioModRuntime extends EventEmitter {
 			this.modsPath = args.modsPath.replace(/\\/g,"/");
 			// check for folder or symlink and leave it alone, if zip update if mine is newer
 			const modlistpath = path.resolve(this.modsPath,"./mod-list.json");
+			if (!fs.existsSync(modlistpath) && !this.replaying)
+			{
+				const generate = await this.host.showMessage("information",
+					`modsPath "${this.modsPath}" does not contain mod-list.json. Generate one with only the base mod enabled?`,
+					"Generate mod-list.json");
+				if (generate === "Generate mod-list.json")
+				{
+					const modlist:ModList = { mods: [ {name:"base",enabled:true} ] };
+					fs.mkdirSync(this.modsPath,{recursive:true});
+					fs.writeFileSync(modlistpath, JSON.stringify(modlist), "utf8");
+					this.host.output.appendLine(`generated mod-list.json in ${this.modsPath}`);
+				}
+			}
 			if (fs.existsSync(modlistpath))
 			{
-				FactorioModRuntime.output.appendLine(`using modsPath ${this.modsPath}`);
+				this.host.output.appendLine(`using modsPath ${this.modsPath}`);
 				if(args.manageMod === false)
 				{
-					FactorioModRuntime.output.appendLine(`automatic management of mods disabled`);
+					this.host.output.appendLine(`automatic management of mods disabled`);
 				}
 				else
 				{
 					if (!args.adjustMods) {args.adjustMods = {};}
 					if (!args.allowDisableBaseMod) {args.adjustMods["base"] = true;}
-					const ext = vscode.extensions.getExtension("justarandomgeek.factoriomod-debug");
-					if (ext)
+					const extpath = this.host.extensionPath;
+					if (extpath)
 					{
-						const extpath = ext.extensionPath;
-
 						const infopath = path.resolve(extpath, "./modpackage/info.json");
 						const zippath = path.resolve(extpath, "./modpackage/debugadapter.zip");
 						if(!(fs.existsSync(zippath) && fs.existsSync(infopath)))
 						{
-							FactorioModRuntime.output.appendLine(`debugadapter mod package missing in extension`);
+							this.host.output.appendLine(`debugadapter mod package missing in extension`);
 						}
 						else
 						{
@@ -248,7 +340,7 @@ export class FactorioModRuntime extends EventEmitter {
 								{
 									// install zip from package
 									fs.copyFileSync(zippath,path.resolve(args.modsPath,`./${dainfo.name}_${dainfo.version}.zip`));
-									FactorioModRuntime.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
+									this.host.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
 								}
 								else if (mods.length === 1)
 								{
@@ -256,56 +348,56 @@ export class FactorioModRuntime extends EventEmitter {
 									{
 										if(mods[0] === `${dainfo.name}_${dainfo.version}.zip`)
 										{
-											FactorioModRuntime.output.appendLine(`using existing ${mods[0]}`);
+											this.host.output.appendLine(`using existing ${mods[0]}`);
 										} else {
 											fs.unlinkSync(path.resolve(args.modsPath,mods[0]));
 											fs.copyFileSync(zippath,path.resolve(args.modsPath,`./${dainfo.name}_${dainfo.version}.zip`));
-											FactorioModRuntime.output.appendLine(`updated ${mods[0]} to ${dainfo.name}_${dainfo.version}.zip`);
+											this.host.output.appendLine(`updated ${mods[0]} to ${dainfo.name}_${dainfo.version}.zip`);
 										}
 									}
 									else
 									{
-										FactorioModRuntime.output.appendLine("existing debugadapter in modsPath is not a zip");
+										this.host.output.appendLine("existing debugadapter in modsPath is not a zip");
 										const modinfopath = path.resolve(args.modsPath, mods[0], "./info.json");
 
 										if(!(mods[0] === `${dainfo.name}_${dainfo.version}`||mods[0] === dainfo.name)
 											|| !fs.existsSync(modinfopath))
 										{
-											FactorioModRuntime.output.appendLine(`existing debugadapter is wrong version or does not contain info.json`);
+											this.host.output.appendLine(`existing debugadapter is wrong version or does not contain info.json`);
 											fs.copyFileSync(zippath,path.resolve(args.modsPath,`./${dainfo.name}_${dainfo.version}.zip`));
-											FactorioModRuntime.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
+											this.host.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
 										}
 										else
 										{
 											const info:ModInfo = JSON.parse(fs.readFileSync(modinfopath, "utf8"));
 											if (info.version !== dainfo.version)
 											{
-												FactorioModRuntime.output.appendLine(`existing ${mods[0]} is wrong version`);
+												this.host.output.appendLine(`existing ${mods[0]} is wrong version`);
 												fs.copyFileSync(zippath,path.resolve(args.modsPath,`./${dainfo.name}_${dainfo.version}.zip`));
-												FactorioModRuntime.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
+												this.host.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
 											}
 										}
 									}
 								}
 								else
 								{
-									FactorioModRuntime.output.appendLine("multiple debugadapters in modsPath");
+									this.host.output.appendLine("multiple debugadapters in modsPath");
 									if(mods.find(s=> s === `${dainfo.name}` ))
 									{
-										FactorioModRuntime.output.appendLine(`using existing ${dainfo.name}`);
+										this.host.output.appendLine(`using existing ${dainfo.name}`);
 									}
 									else if(mods.find(s=> s === `${dainfo.name}_${dainfo.version}` ))
 									{
-										FactorioModRuntime.output.appendLine(`using existing ${dainfo.name}_${dainfo.version}`);
+										this.host.output.appendLine(`using existing ${dainfo.name}_${dainfo.version}`);
 									}
 									else if (mods.find(s=> s === `${dainfo.name}_${dainfo.version}.zip` ))
 									{
-										FactorioModRuntime.output.appendLine(`using existing ${dainfo.name}_${dainfo.version}.zip`);
+										this.host.output.appendLine(`using existing ${dainfo.name}_${dainfo.version}.zip`);
 									}
 									else
 									{
 										fs.copyFileSync(zippath,path.resolve(args.modsPath,`./${dainfo.name}_${dainfo.version}.zip`));
-										FactorioModRuntime.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
+										this.host.output.appendLine(`installed ${dainfo.name}_${dainfo.version}.zip`);
 									}
 
 								}
@@ -352,22 +444,40 @@ export class FactorioModRuntime extends EventEmitter {
 								}
 							}
 
+							if (!await this.checkModDependencies(args, modlist))
+							{
+								this.removeTempDirs(args);
+								this.sendEvent('end');
+								return;
+							}
+
+							if (!args.sandboxPath)
+							{
+								if (this.host.modListSnapshots)
+								{
+									this.host.modListSnapshots.snapshot(this.modsPath);
+								}
+								this.modListChanged = true;
+							}
 							fs.writeFileSync(modlistpath, JSON.stringify(modlist), "utf8");
-							FactorioModRuntime.output.appendLine(`debugadapter ${args.noDebug?"disabled":"enabled"} in mod-list.json`);
+							this.host.output.appendLine(`debugadapter ${args.noDebug?"disabled":"enabled"} in mod-list.json`);
 						}
 					}
 				}
 
 			} else {
-				FactorioModRuntime.output.appendLine(`modsPath "${this.modsPath}" does not contain mod-list.json`);
+				this.host.output.appendLine(`modsPath "${this.modsPath}" does not contain mod-list.json`);
 				this.modsPath = undefined;
 			}
 		} else {
 			// warn that i can't check/add debugadapter
-			FactorioModRuntime.output.appendLine("Cannot install/verify mod without modsPath");
+			this.host.output.appendLine("Cannot install/verify mod without modsPath");
+		}
+		if (args.dataPath)
+		{
+			this.dataPath = args.dataPath.replace(/\\/g,"/");
+			this.host.output.appendLine(`using dataPath ${this.dataPath}`);
 		}
-		this.dataPath = args.dataPath.replace(/\\/g,"/");
-		FactorioModRuntime.output.appendLine(`using dataPath ${this.dataPath}`);
 
 		await this.workspaceModInfoReady;
 
@@ -377,43 +487,61 @@ export class FactorioModRuntime extends EventEmitter {
 			args.factorioArgs.push("--instrument-mod","debugadapter");
 		}
 
-		if (!args.configPathDetected)
+		const pathArgs = new Array<string>();
+		if (!args.configPathDetected && args.configPath)
 		{
-			args.factorioArgs.push("--config",args.configPath);
+			pathArgs.push("--config",args.configPath);
 		}
-		if (!args.modsPathDetected)
+		if (!args.modsPathDetected && args.modsPath)
 		{
 			let mods = args.modsPath;
 			if (!mods.endsWith("/"))
 			{
 				mods += "/";
 			}
-			args.factorioArgs.push("--mod-directory",mods);
+			pathArgs.push("--mod-directory",mods);
 		}
+		args.factorioArgs.push(...pathArgs);
 
-		if (fs.existsSync(path.resolve(args.factorioPath,"../steam_api64.dll")) ||
+		if (args.factorioPath && (
+			fs.existsSync(path.resolve(args.factorioPath,"../steam_api64.dll")) ||
 			fs.existsSync(path.resolve(args.factorioPath,"../steam_api.dylib")) ||
-			fs.existsSync(path.resolve(args.factorioPath,"../steam_api.so"))
+			fs.existsSync(path.resolve(args.factorioPath,"../steam_api.so")))
 		)
 		{
 			const appidPath = path.resolve(args.factorioPath,"../steam_appid.txt");
 			try {
 				if (fs.existsSync(appidPath))
 				{
-					FactorioModRuntime.output.appendLine(`found ${appidPath}`);
+					this.host.output.appendLine(`found ${appidPath}`);
 				}
 				else
 				{
 					fs.writeFileSync(appidPath,"427520");
-					FactorioModRuntime.output.appendLine(`wrote ${appidPath}`);
+					this.host.output.appendLine(`wrote ${appidPath}`);
 				}
 			} catch (error) {
-				FactorioModRuntime.output.appendLine(`failed to write ${appidPath}: ${error}`);
+				this.host.output.appendLine(`failed to write ${appidPath}: ${error}`);
 			}
 
 		}
 
-		if (args.nativeDebugger) {
+		if (args.createMapArgs && !args.replayTranscript)
+		{
+			if (!await this.createMap(args.factorioPath, args.createMapArgs.concat(pathArgs)))
+			{
+				this.restoreModList();
+				this.removeTempDirs(args);
+				this.sendEvent('end');
+				return;
+			}
+		}
+
+		if (args.replayTranscript) {
+			this.host.output.appendLine(`replaying transcript ${args.replayTranscript}`);
+			// only the parts of ChildProcess the runtime uses are provided
+			this._factorio = <ChildProcess><unknown>new TranscriptReplay(args.replayTranscript);
+		} else if (args.nativeDebugger) {
 			this.hasNativeDebug = true;
 			this._factorio = spawn(args.nativeDebugger, [args.factorioPath, ...args.factorioArgs],{
 				cwd: path.dirname(args.factorioPath)
@@ -424,190 +552,294 @@ export class FactorioModRuntime extends EventEmitter {
 			});
 		}
 
-
+		if (args.transcriptPath)
+		{
+			const transcript = new TranscriptWriter(args.transcriptPath, (error)=>{
+				this.host.output.appendLine(`failed to record transcript to ${args.transcriptPath}: ${error.message}`);
+			});
+			this.transcript = transcript;
+			this.host.output.appendLine(`recording transcript to ${args.transcriptPath}`);
+			this._factorio.stdout!.on("data", (data:Buffer) => transcript.record("stdout", data));
+			this._factorio.stderr!.on("data", (data:Buffer) => transcript.record("stderr", data));
+		}
 
 		this._factorio.on("exit", (code:number, signal:string) => {
+			if (this.transcript)
+			{
+				this.transcript.exit(signal ?? code);
+				this.transcript = undefined;
+			}
 			if (this.profile)
 			{
 				this.profile.dispose();
 				this.profile = undefined;
 			}
+			this._pending.rejectAll(`Factorio exited (${signal ?? code})`);
+			this.restoreModList();
+			if (this.benchmark)
+			{
+				this.finishBenchmark(args);
+			}
+			this.removeTempDirs(args);
 			this.sendEvent('end');
 		});
 
 		const stderr = new BufferSplitter(this._factorio.stderr!,[Buffer.from("\n"),Buffer.from("lua_debug> ")]);
+		const stderrErrors = new LuaErrorParser();
 		stderr.on("segment", (chunk:Buffer) => {
 			let chunkstr : string = chunk.toString();
 			chunkstr = chunkstr.replace(/^[\r\n]*/,"").replace(/[\r\n]*$/,"");
 			//raise this as a stderr "Output" event
-			this.sendEvent('output', chunkstr, "stderr");
+			this.outputLine(stderrErrors, chunkstr, "stderr");
 		});
-		const stdout = new BufferSplitter(this._factorio.stdout!, [Buffer.from("\n"),{
-				start: Buffer.from("***DebugAdapterBlockPrint***"),
-				end: Buffer.from("***EndDebugAdapterBlockPrint***")}]);
+		const stdout = new BufferSplitter(this._factorio.stdout!, stdoutFraming);
 		let resolveModules:resolver<void>;
 		const modulesReady = new Promise<void>((resolve)=>{
 			resolveModules = resolve;
 		});
-		stdout.on("segment", async (chunk:Buffer) => {
-			let chunkstr:string = chunk.toString();
-			chunkstr = chunkstr.replace(/^[\r\n]*/,"").replace(/[\r\n]*$/,"");
-			if (!chunkstr) { return; }
-			if (this.trace && chunkstr.startsWith("DBG")){this.sendEvent('output', `> ${chunkstr}`, "console");}
-			if (chunkstr.startsWith("DBG: ")) {
-				this.inPrompt = true;
-				let event = chunkstr.substring(5).trim();
-				if (event === "on_tick") {
-					//if on_tick, then update breakpoints if needed and continue
-					this.continue();
-				} else if (event === "on_data") {
-					//control.lua main chunk - force all breakpoints each time this comes up because it can only set them locally
-					this.continue(true);
-				} else if (event === "on_parse") {
-					//control.lua main chunk - force all breakpoints each time this comes up because it can only set them locally
-					this.continue(true);
-				} else if (event === "on_init") {
-					//if on_init, set initial breakpoints and continue
-					this.continue(true);
-				} else if (event === "on_load") {
-					//on_load set initial breakpoints and continue
-					this.continue(true);
-				} else if (event.startsWith("step")) {
-					// notify stoponstep
-					if(this._breakPointsChanged.size !== 0)
-					{
-						this.updateBreakpoints();
-					}
-					this.sendEvent('stopOnStep');
-				} else if (event === "breakpoint") {
-					// notify stop on breakpoint
-					if(this._breakPointsChanged.size !== 0)
-					{
-						this.updateBreakpoints();
-					}
-					this.sendEvent('stopOnBreakpoint');
-				} else if (event.startsWith("exception")) {
-					// notify stop on exception
-					const sub = event.substr(10);
-					const split = sub.indexOf("\n");
-					const filter = sub.substr(0,split).trim();
-					const err = sub.substr(split+1);
-					if (filter === "manual" || this._exceptionFilters.has(filter))
-					{
-						this.sendEvent('stopOnException', err);
-					}
-					else
-					{
-						this.continue();
-					}
-				} else if (event === "on_instrument_settings") {
-					await modulesReady;
-					if (this.hookMode === "profile")
-					{
-						this.continueRequire(false);
-					}
-					else
-					{
-						this.continueRequire(this.hookSettings,this.hookLog,this.keepOldLog);
-					}
-				} else if (event === "on_instrument_data") {
-					if (this.hookMode === "profile")
-					{
-						this.continueRequire(false);
-					}
-					else
-					{
-						this.continueRequire(this.hookData,this.hookLog,this.keepOldLog);
-					}
-				} else if (event.startsWith("on_instrument_control ")) {
-					const modname = event.substring(22).trim();
-					const hookmods = this.hookControl;
-					const shouldhook = hookmods !== false && (hookmods === true || hookmods.includes(modname));
-					if (this.hookMode === "profile")
-					{
-						this.continueProfile(shouldhook,this.profileSlowStart,this.profileUpdateRate);
-					}
-					else
-					{
-						this.continueRequire(shouldhook,this.hookLog,this.keepOldLog);
-					}
-				} else {
-					// unexpected event?
-					FactorioModRuntime.output.appendLine("unexpected event: " + event);
-					this.continue();
+		const messages = new ModMessageReader(error=>this.host.output.appendLine(error));
+		const stdoutErrors = new LuaErrorParser();
+		messages.on("DBG", async (event)=>{
+			this.inPrompt = true;
+			if (!this.protocolChecked)
+			{
+				this.protocolChecked = true;
+				const mismatch = checkProtocolVersion(this.modProtocolVersion);
+				if (mismatch)
+				{
+					const message = `${mismatch}. Update the debugadapter mod in modsPath, or enable manageMod to let the extension install a matching one.`;
+					this.host.output.appendLine(message);
+					this.host.showMessage("error", message);
+					this.terminate();
+					return;
 				}
-			} else if (chunkstr.startsWith("DBGlogpoint: ")) {
-				const logpoint = JSON.parse(chunkstr.substring(13).trim());
-				this.sendEvent('output', logpoint.output, "console", logpoint.filePath, logpoint.line, logpoint.variablesReference);
-			} else if (chunkstr.startsWith("DBGprint: ")) {
-				const body = JSON.parse(chunkstr.substring(10).trim());
-				const lsid = body.output.match(/\{LocalisedString ([0-9]+)\}/);
-				if (lsid)
+			}
+			if (event === "on_tick") {
+				//if on_tick, then run any queued console commands, update breakpoints if needed and continue
+				this.runQueuedCommands();
+				if (this.pauseSent)
 				{
-					const id = Number.parseInt(lsid[1]);
-					body.output = this.translations.get(id) ?? `{Missing Translation ID ${id}}`;
+					// no hooked mod ran any code for a whole tick, so stop here instead
+					this.stopOnPause();
+					return;
 				}
-				this.sendEvent('output', body.output, body.category ?? "console", body.source, body.line);
-			} else if (chunkstr.startsWith("DBGstack: ")) {
-				this._stack!(JSON.parse(chunkstr.substring(10).trim()));
-				this._stack = undefined;
-			} else if (chunkstr.startsWith("EVTmodules: ")) {
-				if (this.trace){this.sendEvent('output', `> EVTmodules`, "console");}
-				await this.updateModules(JSON.parse(chunkstr.substring(12).trim()));
-				resolveModules();
-
-				// and finally send the initialize event to get breakpoints and such...
-				this.sendEvent("initialize");
-			} else if (chunkstr.startsWith("DBGscopes: ")) {
-				const scopes = JSON.parse(chunkstr.substring(11).trim());
-				this._scopes.get(scopes.frameId)!(scopes.scopes);
-				this._scopes.delete(scopes.frameId);
-			} else if (chunkstr.startsWith("DBGvars: ")) {
-				const vars = JSON.parse(chunkstr.substring(9).trim());
-				this._vars.get(vars.seq)!(vars.vars);
-				this._vars.delete(vars.seq);
-			} else if (chunkstr.startsWith("DBGsetvar: ")) {
-				const result = JSON.parse(chunkstr.substring(11).trim());
-				this._setvars.get(result.seq)!(result.body);
-				this._setvars.delete(result.seq);
-			} else if (chunkstr.startsWith("DBGeval: ")) {
-				const evalresult:EvaluateResponseBody = JSON.parse(chunkstr.substring(9).trim());
-				const lsid = evalresult.result.match(/\{LocalisedString ([0-9]+)\}/);
-				if (lsid)
+				if (this.ticksUntilPause !== undefined && --this.ticksUntilPause <= 0)
 				{
-					const id = Number.parseInt(lsid[1]);
-					evalresult.result = this.translations.get(id) ?? `{Missing Translation ID ${id}}`;
+					this.ticksUntilPause = undefined;
+					this.pauseRequested = true;
 				}
-				if (evalresult.timer)
+				this.continue();
+			} else if (event === "on_data") {
+				//control.lua main chunk - force all breakpoints each time this comes up because it can only set them locally
+				this.continue(true);
+			} else if (event === "on_parse") {
+				//control.lua main chunk - force all breakpoints each time this comes up because it can only set them locally
+				this.continue(true);
+			} else if (event === "on_init") {
+				//if on_init, set initial breakpoints and continue
+				this.continue(true);
+			} else if (event === "on_load") {
+				//on_load set initial breakpoints and continue
+				this.continue(true);
+			} else if (event === "pause") {
+				this.stopOnPause();
+			} else if (event.startsWith("step")) {
+				// notify stoponstep
+				if(this.breakpointsChanged())
 				{
-					const time = this.translations.get(evalresult.timer) ?? `{Missing Translation ID ${evalresult.timer}}`;
-					evalresult.result += "\n⏱️ " + time.replace(/^.*: /,"");
+					this.updateBreakpoints();
 				}
-
-				this._evals.get(evalresult.seq)!(evalresult);
-				this._evals.delete(evalresult.seq);
-			} else if (chunkstr.startsWith("DBGtranslate: ")) {
-				const sub = chunkstr.substr(14);
+				this.pauseRequested = false;
+				this.sendEvent('stopOnStep');
+			} else if (event === "breakpoint") {
+				// notify stop on breakpoint
+				if(this.breakpointsChanged())
+				{
+					this.updateBreakpoints();
+				}
+				this.pauseRequested = false;
+				this.sendEvent('stopOnBreakpoint');
+			} else if (event.startsWith("event breakpoint ")) {
+				// notify stop on event breakpoint
+				if(this.breakpointsChanged())
+				{
+					this.updateBreakpoints();
+				}
+				this.pauseRequested = false;
+				this.sendEvent('stopOnEventBreakpoint', event.substring(17).trim());
+			} else if (event === "function breakpoint") {
+				// notify stop on function breakpoint
+				if(this.breakpointsChanged())
+				{
+					this.updateBreakpoints();
+				}
+				this.pauseRequested = false;
+				this.sendEvent('stopOnFunctionBreakpoint');
+			} else if (event.startsWith("exception")) {
+				// notify stop on exception
+				const sub = event.substr(10);
 				const split = sub.indexOf("\n");
-				const id = Number.parseInt(sub.substr(0,split).trim());
-				const translation = sub.substr(split+1);
-				this.translations.set(id,translation);
-			} else if (chunkstr === "DBGuntranslate") {
-				this.translations.clear();
-			} else if (chunkstr.startsWith("PROFILE:")) {
-				if (this.profile)
+				const filter = sub.substr(0,split).trim();
+				const err = sub.substr(split+1);
+				if (filter === "manual" || this._exceptionFilters.has(filter))
 				{
-					const editor = vscode.window.activeTextEditor;
-					this.profile.parse(chunkstr);
-					if (editor && (editor.document.uri.scheme==="file"||editor.document.uri.scheme==="zip"))
-					{
-						const profname = this.convertClientPathToDebugger(editor.document.uri.toString());
-						this.profile.render(editor,profname);
-					}
+					this.pauseRequested = false;
+					this._exceptionText = err;
+					this._exceptionInfo = this.fetchExceptionInfo();
+					// fetch it again if asked, rather than keep the failure
+					this._exceptionInfo.catch(()=>{ this._exceptionInfo = undefined; });
+					this.sendEvent('stopOnException', err);
+				}
+				else
+				{
+					this.continue();
+				}
+			} else if (event === "on_instrument_settings") {
+				await modulesReady;
+				if (this.hookMode === "profile")
+				{
+					this.continueRequire(false);
+				}
+				else
+				{
+					this.continueRequire(this.hookSettings,this.hookLog,this.keepOldLog);
+				}
+			} else if (event === "on_instrument_data") {
+				if (this.hookMode === "profile")
+				{
+					this.continueRequire(false);
+				}
+				else
+				{
+					this.continueRequire(this.hookData,this.hookLog,this.keepOldLog);
+				}
+			} else if (event.startsWith("on_instrument_control ")) {
+				const modname = event.substring(22).trim();
+				const hookmods = this.hookControl;
+				const shouldhook = hookmods !== false && (hookmods === true || hookmods.includes(modname));
+				if (this.hookMode === "profile")
+				{
+					this.continueProfile(shouldhook,this.profileSlowStart,this.profileUpdateRate);
+				}
+				else
+				{
+					this.continueRequire(shouldhook,this.hookLog,this.keepOldLog);
 				}
 			} else {
+				// unexpected event?
+				this.host.output.appendLine("unexpected event: " + event);
+				this.continue();
+			}
+		}).on("DBGlogpoint", logpoint=>{
+			this.sendEvent('output', logpoint.output, "console", logpoint.filePath, logpoint.line, logpoint.variablesReference);
+		}).on("DBGprint", body=>{
+			const lsid = body.output.match(/\{LocalisedString ([0-9]+)\}/);
+			if (lsid)
+			{
+				const id = Number.parseInt(lsid[1]);
+				body.output = this.translations.get(id) ?? `{Missing Translation ID ${id}}`;
+			}
+			this.sendEvent('output', body.output, body.category ?? "console", body.source, body.line);
+		}).on("EVTprotocol", protocol=>{
+			this.modProtocolVersion = protocol.version;
+		}).on("EVTevents", events=>{
+			this._eventNames = events;
+		}).on("DBGfuncbps", result=>{
+			this._functionBreakPoints.forEach(fbp=>{
+				if (!fbp.breakpoint.verified && result.verified.includes(fbp.bp.name))
+				{
+					fbp.breakpoint.verified = true;
+					fbp.breakpoint.message = undefined;
+					this.sendEvent('breakpointChanged', fbp.breakpoint);
+				}
+			});
+		}).on("EVTsource", async loaded=>{
+			let source:Source|undefined;
+			if (loaded.path)
+			{
+				if (!this._loadedFiles.has(loaded.path))
+				{
+					this._loadedFiles.add(loaded.path);
+					await modulesReady;
+					source = this.fileSource(loaded.path);
+				}
+			}
+			else if (loaded.chunk)
+			{
+				source = this.chunkSource(this.addChunk(loaded.chunk,loaded.name!,loaded.module!));
+			}
+			if (source)
+			{
+				this.sendEvent('loadedSource', source);
+			}
+		}).on("DBGsource", result=>{
+			this.resolvePending("source", result.seq, result);
+		}).on("DBGstack", stack=>{
+			stack.forEach(frame=>{
+				const chunk = frame.source?.chunk;
+				if (chunk)
+				{
+					frame.source = this.chunkSource(this.addChunk(chunk,frame.source!.name!,chunk.state));
+				}
+			});
+			this.resolvePending("stack", 0, stack);
+		}).on("EVTmodules", async modules=>{
+			if (this.trace){this.sendEvent('output', `> EVTmodules`, "console");}
+			await this.updateModules(modules);
+			resolveModules();
+
+			// and finally send the initialize event to get breakpoints and such...
+			this.sendEvent("initialize");
+		}).on("DBGscopes", scopes=>{
+			this.resolvePending("scopes", scopes.frameId, scopes.scopes);
+		}).on("DBGvars", vars=>{
+			this.resolvePending("vars", vars.seq, vars.vars);
+		}).on("DBGsetvar", result=>{
+			this.resolvePending("setvar", result.seq, result.body);
+		}).on("DBGeval", evalresult=>{
+			const lsid = evalresult.result.match(/\{LocalisedString ([0-9]+)\}/);
+			if (lsid)
+			{
+				const id = Number.parseInt(lsid[1]);
+				evalresult.result = this.translations.get(id) ?? `{Missing Translation ID ${id}}`;
+			}
+			if (evalresult.timer)
+			{
+				const time = this.translations.get(evalresult.timer) ?? `{Missing Translation ID ${evalresult.timer}}`;
+				evalresult.result += "\n⏱️ " + time.replace(/^.*: /,"");
+			}
+
+			this.resolvePending("eval", evalresult.seq, evalresult);
+		}).on("DBGexceptioninfo", result=>{
+			this.resolvePending("exceptioninfo", result.seq, result);
+		}).on("DBGcompletions", result=>{
+			this.resolvePending("completions", result.seq, result.targets);
+		}).on("DBGtranslate", translation=>{
+			this.translations.set(translation.id,translation.translation);
+		}).on("DBGuntranslate", ()=>{
+			this.translations.clear();
+		}).on("PROFILE", profile=>{
+			if (this.profile)
+			{
+				this.profile.parse(profile);
+			}
+		});
+
+		stdout.on("segment", (chunk:Buffer) => {
+			let chunkstr:string = chunk.toString();
+			chunkstr = chunkstr.replace(/^[\r\n]*/,"").replace(/[\r\n]*$/,"");
+			if (!chunkstr) { return; }
+			if (this.trace && chunkstr.startsWith("DBG")){this.sendEvent('output', `> ${chunkstr}`, "console");}
+			if (this.benchmark?.line(chunkstr)) { return; }
+			if (!messages.dispatch(chunkstr))
+			{
 				//raise this as a stdout "Output" event
-				this.sendEvent('output', chunkstr, "stdout");
+				this.outputLine(stdoutErrors, chunkstr, "stdout");
+				if (this.waitingForServer && chunkstr.match(/changing state from\(CreatingGame\) to\(InGame\)/))
+				{
+					this.waitingForServer = false;
+					this.sendEvent('serverReady');
+				}
 			}
 		});
 	}
@@ -620,42 +852,272 @@ export class FactorioModRuntime extends EventEmitter {
 			this.profile = undefined;
 		}
 
+		const factorio = this._factorio;
+		if (!factorio)
+		{
+			// the launch ended before Factorio was started
+			return;
+		}
+
 		if (this.hasNativeDebug)
 		{
-			treekill(this._factorio.pid);
+			if (factorio.pid !== undefined) { treekill(factorio.pid); }
 		}
 		else
 		{
-			this._factorio.kill();
+			factorio.kill();
 			try {
 				// this covers some weird hangs on closing on macs and
 				// seems to have no ill effects on windows, but try/catch
 				// just in case...
-				this._factorio.kill('SIGKILL');
+				factorio.kill('SIGKILL');
 			} catch (error) {}
 		}
-		const modsPath = this.modsPath;
-		if (modsPath) {
-			const modlistpath = path.resolve(modsPath,"./mod-list.json");
-			if (fs.existsSync(modlistpath))
+		// mod-list.json is restored when the process actually exits
+	}
+
+	/**
+	 * Raise an "Output" event for a line from Factorio, linking any Lua error
+	 * in it to its source and reporting it as a problem.
+	 */
+	private outputLine(errors: LuaErrorParser, text: string, category: string)
+	{
+		const parsed = errors.line(text);
+		if (parsed?.kind === "error")
+		{
+			const clientPath = this.luaErrorPath(parsed.error);
+			this.sendEvent('output', text, category, clientPath, parsed.error.line);
+			if (clientPath)
 			{
-				if(this.manageMod === false)
-				{
-					FactorioModRuntime.output.appendLine(`automatic management of mods disabled`);
-				}
-				else
+				this.addLuaError(URI.parse(clientPath).toString(), parsed.error);
+			}
+		}
+		else if (parsed?.kind === "frame")
+		{
+			const clientPath = this.luaErrorPath(parsed.frame);
+			this.sendEvent('output', text, category, clientPath, parsed.frame.line);
+			const reported = this.luaErrorTracebacks.get(parsed.error);
+			if (clientPath && reported)
+			{
+				reported.problem.traceback.push({
+					uri: URI.parse(clientPath).toString(),
+					line: parsed.frame.line,
+					text: parsed.error.traceback[parsed.error.traceback.length-1].text,
+				});
+				this.host.setLuaErrors(reported.uri, this.luaErrorProblems.get(reported.uri)!);
+			}
+		}
+		else
+		{
+			this.sendEvent('output', text, category);
+		}
+	}
+
+	private luaErrorPath(location: LuaErrorLocation): string|undefined
+	{
+		const debuggerPath = `@__${location.modname}__/${location.file}`;
+		const clientPath = this.convertDebuggerPathToClient(debuggerPath);
+		if (clientPath !== debuggerPath)
+		{
+			return clientPath;
+		}
+
+		// modules are only listed by the debug adapter mod, so look where they would be found without it
+		if (location.modname === "core" || location.modname === "base")
+		{
+			return URI.parse("file:/"+path.posix.join(this.dataPath,location.modname,location.file)).toString();
+		}
+		const wm = this.workspaceModInfo.find(m=>m.name===location.modname);
+		if (wm)
+		{
+			return path.posix.join(wm.uri.toString(),location.file);
+		}
+		return undefined;
+	}
+
+	private addLuaError(uri: string, error: LuaError)
+	{
+		const problems = this.luaErrorProblems.get(uri) ?? [];
+		// the same error is often printed in both the log and on stderr
+		if (problems.some(p=>p.line === error.line && p.message === error.message)) { return; }
+		const problem:LuaErrorProblem = { line: error.line, message: error.message, traceback: [] };
+		problems.push(problem);
+		this.luaErrorProblems.set(uri, problems);
+		this.luaErrorTracebacks.set(error, { uri: uri, problem: problem });
+		this.host.setLuaErrors(uri, problems);
+	}
+
+	private finishBenchmark(args: LaunchRequestArguments)
+	{
+		const result = this.benchmark!.result(args.benchmarkSave ?? args.benchmark!.save, args.factorioVersion?.version);
+		this.benchmark = undefined;
+		if (result.runs.length === 0)
+		{
+			this.host.output.appendLine(`benchmark produced no results`);
+			return;
+		}
+		const results = [{ label: "This run", result: result }];
+		const resultsPath = args.benchmark!.resultsPath ??
+			(this.host.workspacePath ? path.join(this.host.workspacePath, ".benchmarks") : undefined);
+		if (resultsPath)
+		{
+			try {
+				const resultpath = saveBenchmarkResult(result, resultsPath);
+				this.host.output.appendLine(`wrote benchmark results to ${resultpath}`);
+			} catch (error) {
+				this.host.output.appendLine(`failed to write benchmark results: ${error}`);
+			}
+		}
+		if (args.benchmark!.compareWith)
+		{
+			try {
+				results.unshift({
+					label: path.basename(args.benchmark!.compareWith, ".json"),
+					result: JSON.parse(fs.readFileSync(args.benchmark!.compareWith, "utf8")),
+				});
+			} catch (error) {
+				this.host.output.appendLine(`failed to read ${args.benchmark!.compareWith}: ${error}`);
+			}
+		}
+		this.host.showBenchmarkResults(results);
+	}
+
+	/**
+	 * Remove the sandbox and any other temporary directories made for this
+	 * session, once Factorio is done with them or won't be launched after all.
+	 */
+	private removeTempDirs(args: LaunchRequestArguments)
+	{
+		if (args.sandboxPath)
+		{
+			try {
+				removeDir(args.sandboxPath);
+				this.host.output.appendLine(`removed sandbox ${args.sandboxPath}`);
+			} catch (error) {}
+		}
+		(args.tempDirs ?? []).forEach(dir=>{
+			try {
+				removeDir(dir);
+			} catch (error) {}
+		});
+	}
+
+	/**
+	 * Run Factorio once to create a new map, before launching it for debugging.
+	 * @returns true if the map was created
+	 */
+	private createMap(factorioPath:string, createArgs:string[]): Promise<boolean>
+	{
+		this.host.output.appendLine(`creating map: ${createArgs.join(" ")}`);
+		return new Promise<boolean>(resolve=>{
+			const create = spawn(factorioPath, createArgs, {
+				cwd: path.dirname(factorioPath),
+				stdio: ["ignore", "pipe", "pipe"],
+			});
+			create.stdout!.on("data", (data:Buffer)=>this.host.output.append(data.toString()));
+			create.stderr!.on("data", (data:Buffer)=>this.host.output.append(data.toString()));
+			create.on("error", (error)=>{
+				this.host.output.appendLine(`failed to create map: ${error}`);
+				resolve(false);
+			});
+			create.on("exit", (code:number|null)=>{
+				if (code !== 0) { this.host.output.appendLine(`failed to create map: exit code ${code}`); }
+				resolve(code === 0);
+			});
+		});
+	}
+
+	/**
+	 * Check the dependencies of everything enabled in `modlist` before launching,
+	 * and offer to fix `adjustMods` if there are problems.
+	 * @returns false if the launch should be cancelled
+	 */
+	private async checkModDependencies(args: LaunchRequestArguments, modlist:ModList): Promise<boolean>
+	{
+		await this.workspaceModInfoReady;
+		const workspaceMods = this.workspaceModInfo.filter(mp=>mp.name && mp.version).map(mp=>{
+			return {
+				name: mp.name,
+				version: mp.version,
+				dependencies: mp.info.dependencies ?? ["base"],
+				location: mp.uri.fsPath,
+			};
+		});
+		const problems = checkDependencies(modlist.mods, findInstalledMods(args.dataPath, this.modsPath!, workspaceMods));
+		if (problems.length === 0) { return true; }
+
+		this.host.output.appendLine(`mod dependency problems:`);
+		problems.forEach(problem=>this.host.output.appendLine(`  ${problem.message}`));
+		this.host.output.show(true);
+
+		const fixes = problems.filter(problem=>problem.fix).map(problem=>problem.fix!);
+		const choice = await this.host.showMessage("warning",
+			`${problems.length} mod dependency problem${problems.length > 1 ? "s" : ""}: ${problems[0].message}${problems.length > 1 ? ", ..." : ""}`,
+			...(fixes.length > 0 ? ["Fix adjustMods"] : []), "Launch anyway");
+		if (choice === "Fix adjustMods")
+		{
+			const adjust:{[key:string]:boolean|string} = {};
+			fixes.forEach(fix=>{
+				if (!adjust.hasOwnProperty(fix.name)) { adjust[fix.name] = fix.value; }
+			});
+			for (const mod in adjust) {
+				if (adjust.hasOwnProperty(mod))
 				{
-					let modlist:ModList = JSON.parse(fs.readFileSync(modlistpath, "utf8"));
-					modlist.mods.map((modentry)=>{
-						if (modentry.name === "debugadapter") {
-							modentry.enabled = false;
-						};
-						return modentry;
-					});
-					fs.writeFileSync(modlistpath, JSON.stringify(modlist), "utf8");
-					FactorioModRuntime.output.appendLine(`debugadapter disabled in mod-list.json`);
+					const value = adjust[mod];
+					const entry = modlist.mods.find(modentry=>modentry.name === mod);
+					const fixed:ModEntry = value === true || value === false ? {name:mod,enabled:value} : {name:mod,enabled:true,version:value};
+					if (entry)
+					{
+						modlist.mods[modlist.mods.indexOf(entry)] = fixed;
+					}
+					else
+					{
+						modlist.mods.push(fixed);
+					}
+					this.host.output.appendLine(`adjustMods: ${mod} = ${value}`);
 				}
 			}
+			await this.saveAdjustMods(args, adjust);
+			return true;
+		}
+		return choice === "Launch anyway";
+	}
+
+	/**
+	 * Merge `adjust` into the `adjustMods` of the launch configuration this session was started from.
+	 */
+	private async saveAdjustMods(args: LaunchRequestArguments, adjust:{[key:string]:boolean|string})
+	{
+		if (!args.name || !await this.host.saveAdjustMods(args.name, adjust))
+		{
+			this.host.output.appendLine(`launch configuration "${args.name}" not found, adjustMods only changed for this session`);
+		}
+	}
+
+	private restoreModList()
+	{
+		const modsPath = this.modsPath;
+		if (!modsPath || !this.modListChanged) { return; }
+		this.modListChanged = false;
+		if (this.host.modListSnapshots?.restore(modsPath))
+		{
+			this.host.output.appendLine(`restored mod-list.json and mod-settings.dat`);
+			return;
+		}
+
+		// no snapshot to put back, so at least don't leave debugadapter enabled
+		const modlistpath = path.resolve(modsPath,"./mod-list.json");
+		if (fs.existsSync(modlistpath))
+		{
+			let modlist:ModList = JSON.parse(fs.readFileSync(modlistpath, "utf8"));
+			modlist.mods.map((modentry)=>{
+				if (modentry.name === "debugadapter") {
+					modentry.enabled = false;
+				};
+				return modentry;
+			});
+			fs.writeFileSync(modlistpath, JSON.stringify(modlist), "utf8");
+			this.host.output.appendLine(`debugadapter disabled in mod-list.json`);
 		}
 	}
 
@@ -668,8 +1130,10 @@ export class FactorioModRuntime extends EventEmitter {
 		}
 
 		if (this.trace) { this.sendEvent('output', `< ${s instanceof Buffer ? `Buffer[${s.length}]` : s.replace(/^[\r\n]*/,"").replace(/[\r\n]*$/,"")}`, "console"); }
+		const data = Buffer.concat([s instanceof Buffer ? s : Buffer.from(s),Buffer.from("\n")]);
+		if (this.transcript) { this.transcript.record("stdin", data); }
 		// eslint-disable-next-line no-unused-expressions
-		this._factorio.stdin?.write(Buffer.concat([s instanceof Buffer ? s : Buffer.from(s),Buffer.from("\n")]));
+		this._factorio?.stdin?.write(data);
 	}
 
 	/**
@@ -682,15 +1146,43 @@ export class FactorioModRuntime extends EventEmitter {
 			return;
 		}
 
-		if(updateAllBreakpoints || this._breakPointsChanged.size !== 0)
+		if(updateAllBreakpoints || this.breakpointsChanged())
 		{
 			this.updateBreakpoints(updateAllBreakpoints);
 		}
 
-		this.writeStdin("cont");
+		if (this.pauseRequested)
+		{
+			// break at the next hooked line in any mod
+			this.writeStdin(modCommands.pause(true));
+			this.pauseRequested = false;
+			this.pauseSent = true;
+		}
+
+		this.writeStdin(modCommands.continue());
 		this.inPrompt = false;
 	}
 
+	/**
+	 * Request a pause at the next hooked line, or the next tick if no hooked
+	 * mod runs any code. This is passed to the mod at the next prompt.
+	 */
+	public pause() {
+		this.pauseRequested = true;
+	}
+
+	private stopOnPause() {
+		// clear the pause in any other mods that haven't seen it yet
+		this.pauseRequested = false;
+		this.pauseSent = false;
+		this.writeStdin(modCommands.pause(false));
+		if(this.breakpointsChanged())
+		{
+			this.updateBreakpoints();
+		}
+		this.sendEvent('stopOnPause');
+	}
+
 	public continueRequire(shouldRequire:boolean,hookLog?:boolean,keepOldLog?:boolean) {
 		if (!this.inPrompt)
 		{
@@ -698,20 +1190,10 @@ export class FactorioModRuntime extends EventEmitter {
 			return;
 		}
 		if (shouldRequire) {
-			let hookopts = "";
-			if (hookLog !== undefined)
-			{
-				hookopts += `hooklog=${hookLog},`;
-			}
-			if (keepOldLog !== undefined)
-			{
-				hookopts += `keepoldlog=${keepOldLog},`;
-			}
-
-			this.writeStdin(`__DebugAdapter={${hookopts}}`);
+			this.writeStdin(modCommands.hookOptions("__DebugAdapter", { hooklog: hookLog, keepoldlog: keepOldLog }));
 		}
 
-		this.writeStdin("cont");
+		this.writeStdin(modCommands.continue());
 		this.inPrompt = false;
 	}
 
@@ -722,19 +1204,10 @@ export class FactorioModRuntime extends EventEmitter {
 			return;
 		}
 		if (shouldRequire) {
-			let hookopts = "";
-			if (slowStart !== undefined)
-			{
-				hookopts += `slowStart=${slowStart},`;
-			}
-			if (updateRate !== undefined)
-			{
-				hookopts += `updateRate=${updateRate},`;
-			}
-			this.writeStdin(`__Profiler={${hookopts}}`);
+			this.writeStdin(modCommands.hookOptions("__Profiler", { slowStart: slowStart, updateRate: updateRate }));
 		}
 
-		this.writeStdin("cont");
+		this.writeStdin(modCommands.continue());
 		this.inPrompt = false;
 	}
 
@@ -742,29 +1215,29 @@ export class FactorioModRuntime extends EventEmitter {
 	 * Step to the next/previous non empty line.
 	 */
 	public step(event = 'in') {
-		if(this._breakPointsChanged.size !== 0)
+		if(this.breakpointsChanged())
 		{
 			this.updateBreakpoints();
 		}
-		this.writeStdin(`__DebugAdapter.step("${event}")`);
-		this.writeStdin("cont");
+		this.writeStdin(modCommands.step(event));
+		this.writeStdin(modCommands.continue());
+		this.inPrompt = false;
 	}
 
 	/**
 	 * Returns a fake 'stacktrace' where every 'stackframe' is a word from the current line.
 	 */
-	public async stack(startFrame: number, endFrame: number): Promise<StackFrame[]> {
-		return new Promise<StackFrame[]>((resolve)=>{
-			this._stack = resolve;
-			this.writeStdin(`__DebugAdapter.stackTrace(${startFrame},${endFrame-startFrame})`);
-		});
+	public async stack(startFrame: number, endFrame: number, seq?: number): Promise<StackFrame[]> {
+		return this._pending.add<StackFrame[]>("stack", 0, ()=>{
+			this.writeStdin(modCommands.stackTrace(startFrame,endFrame-startFrame));
+		}, seq);
 	}
 
 	private async updateModules(modules: DebugProtocol.Module[]) {
-		const zipext = vscode.extensions.getExtension("slevesque.vscode-zipexplorer");
-		if (zipext)
+		const zipExplorer = this.host.zipExplorer;
+		if (zipExplorer)
 		{
-			vscode.commands.executeCommand("zipexplorer.clear");
+			zipExplorer.clear();
 		}
 		for (const module of modules) {
 			this._modules.set(module.name,module);
@@ -774,16 +1247,16 @@ export class FactorioModRuntime extends EventEmitter {
 				// find `level` nowhere
 				module.symbolStatus = "No Symbols (Level)";
 
-				//FactorioModRuntime.output.appendLine(`no source loaded for ${module.name}`);
+				//this.host.output.appendLine(`no source loaded for ${module.name}`);
 				continue;
 			}
 
 			if (module.name === "core" || module.name === "base")
 			{
 				// find `core` and `base` in data
-				module.symbolFilePath = vscode.Uri.parse("file:/"+path.posix.join(this.dataPath,module.name)).toString();
+				module.symbolFilePath = URI.parse("file:/"+path.posix.join(this.dataPath,module.name)).toString();
 				module.symbolStatus = "Loaded Data Directory";
-				FactorioModRuntime.output.appendLine(`loaded ${module.name} from data ${module.symbolFilePath}`);
+				this.host.output.appendLine(`loaded ${module.name} from data ${module.symbolFilePath}`);
 				continue;
 			}
 
@@ -793,117 +1266,118 @@ export class FactorioModRuntime extends EventEmitter {
 				// find it in workspace
 				module.symbolFilePath = wm.uri.toString();
 				module.symbolStatus = "Loaded Workspace Directory";
-				FactorioModRuntime.output.appendLine(`loaded ${module.name} ${module.version} from workspace ${module.symbolFilePath}`);
+				this.host.output.appendLine(`loaded ${module.name} ${module.version} from workspace ${module.symbolFilePath}`);
 				continue;
 			}
 
 			if (this.modsPath)
 			{
-				async function trydir(dir:vscode.Uri): Promise<boolean>
+				const trydir = async (dir:URI): Promise<boolean>=>
 				{
 					try
 					{
-						const stat = await vscode.workspace.fs.stat(dir);
-						// eslint-disable-next-line no-bitwise
-						if (stat.type|vscode.FileType.Directory)
+						const infojson = dir.with({path: path.posix.join(dir.path,"info.json")}).toString();
+						if (await this.host.stat(dir.toString()) === "directory" && await this.host.stat(infojson) === "file")
 						{
-
-							const modinfo:ModInfo = JSON.parse(Buffer.from(
-								await vscode.workspace.fs.readFile(
-									dir.with({path: path.posix.join(dir.path,"info.json")})
-									)).toString("utf8"));
+							const modinfo:ModInfo = JSON.parse((await this.host.readFile(infojson)).toString("utf8"));
 							if (modinfo.name===module.name && semver.eq(modinfo.version,module.version!))
 							{
 								module.symbolFilePath = dir.toString();
 								module.symbolStatus = "Loaded Mod Directory";
-								FactorioModRuntime.output.appendLine(`loaded ${module.name} ${module.version} from modspath ${module.symbolFilePath}`);
+								this.host.output.appendLine(`loaded ${module.name} ${module.version} from modspath ${module.symbolFilePath}`);
 								return true;
 							}
 						}
 					}
 					catch (ex)
 					{
-						if ((<vscode.FileSystemError>ex).code !== "FileNotFound")
-						{
-							FactorioModRuntime.output.appendLine(`${ex}`);
-						}
+						this.host.output.appendLine(`${ex}`);
 						return false;
 					}
 					return false;
-				}
+				};
 
 				// find it in mods dir:
 				// 1) unversioned folder
-				let dir = vscode.Uri.parse("file:/"+ path.resolve(this.modsPath,module.name).replace(/\\/g,"/"));
+				let dir = URI.parse("file:/"+ path.resolve(this.modsPath,module.name).replace(/\\/g,"/"));
 				if(await trydir(dir)){continue;};
 
 				// 2) versioned folder
-				dir = vscode.Uri.parse("file:/"+ path.resolve(this.modsPath,module.name+"_"+module.version).replace(/\\/g,"/"));
+				dir = URI.parse("file:/"+ path.resolve(this.modsPath,module.name+"_"+module.version).replace(/\\/g,"/"));
 				if(await trydir(dir)){continue;};
 
 				// 3) versioned zip
-				if (zipext)
+				if (zipExplorer)
 				{
-					const zipuri = vscode.Uri.parse("file:/"+ path.resolve(this.modsPath,module.name+"_"+module.version+".zip").replace(/\\/g,"/"));
-					let stat:vscode.FileStat|undefined;
+					const zipuri = URI.parse("file:/"+ path.resolve(this.modsPath,module.name+"_"+module.version+".zip").replace(/\\/g,"/"));
+					let stat:"file"|"directory"|undefined;
 					try
 					{
-						stat = await vscode.workspace.fs.stat(zipuri);
+						stat = await this.host.stat(zipuri.toString());
 					}
 					catch (ex)
 					{
-						if ((<vscode.FileSystemError>ex).code !== "FileNotFound")
-						{
-							FactorioModRuntime.output.appendLine(`${ex}`);
-						}
+						this.host.output.appendLine(`${ex}`);
 					}
-					// eslint-disable-next-line no-bitwise
-					if (stat && stat.type|vscode.FileType.File)
+					if (stat === "file")
 					{
 						try
 						{
 							// if zip exists, try to mount it
 							//TODO: can i check if it's already mounted somehow?
 							//TODO: mount it fast enough to actually read dirname inside
-							vscode.commands.executeCommand("zipexplorer.exploreZipFile", zipuri);
+							zipExplorer.explore(zipuri.toString());
 
 							let zipinside = zipuri.with({scheme: "zip", path: path.posix.join(zipuri.path,module.name+"_"+module.version)});
 							module.symbolFilePath = zipinside.toString();
 							module.symbolStatus = "Loaded Zip";
-							FactorioModRuntime.output.appendLine(`loaded ${module.name} ${module.version} from mod zip ${zipuri.toString()}`);
+							this.host.output.appendLine(`loaded ${module.name} ${module.version} from mod zip ${zipuri.toString()}`);
 							continue;
 						}
 						catch (ex)
 						{
-							FactorioModRuntime.output.appendLine(`${ex}`);
+							this.host.output.appendLine(`${ex}`);
 						}
 					}
 				}
 			}
 
 			module.symbolStatus = "Unknown";
-			FactorioModRuntime.output.appendLine(`no source found for ${module.name} ${module.version}`);
+			this.host.output.appendLine(`no source found for ${module.name} ${module.version}`);
 		}
 		//TODO: another event to update it with levelpath for __level__ eventually?
 		this.sendEvent('modules',Array.from(this._modules.values()));
+
+		// paths may map differently now, so check all the breakpoints again
+		for (const [clientPath, source] of this._sourceBreakPoints) {
+			await this.verifyBreakPoints(clientPath, source);
+			source.breakpoints.forEach(bp=>this.sendEvent('breakpointChanged', bp));
+		}
+		// qualified function breakpoints set before the modules were known now wait to be called
+		this._functionBreakPoints.forEach(fbp=>{
+			const qualified = fbp.bp.name.match(/^__(.+?)__\/(.+):([a-zA-Z_][a-zA-Z0-9_]*)$/);
+			if (qualified && !fbp.breakpoint.verified && this._modules.has(qualified[1]))
+			{
+				fbp.breakpoint.message = `function ${qualified[3]} not called yet`;
+				this.sendEvent('breakpointChanged', fbp.breakpoint);
+			}
+		});
 	}
 
 	public modules(): Module[] {
 		return Array.from(this._modules.values());
 	}
 
-	public async scopes(frameId: number): Promise<Scope[]> {
-		return new Promise<Scope[]>((resolve)=>{
-			this._scopes.set(frameId, resolve);
-			this.writeStdin(`__DebugAdapter.scopes(${frameId})\n`);
-		});
+	public async scopes(frameId: number, seq?: number): Promise<Scope[]> {
+		return this._pending.add<Scope[]>("scopes", frameId, ()=>{
+			this.writeStdin(modCommands.scopes(frameId));
+		}, seq);
 	}
 
 	public async vars(variablesReference: number, seq: number, filter?: string, start?: number, count?: number): Promise<Variable[]> {
-		let vars:Variable[] = await new Promise<Variable[]>((resolve)=>{
-			this._vars.set(seq, resolve);
-			this.writeStdin(`__DebugAdapter.variables(${variablesReference},${seq},${filter? `"${filter}"`:"nil"},${start || "nil"},${count || "nil"})\n`);
-		});
+		let vars = await this._pending.add<Variable[]>("vars", seq, ()=>{
+			this.writeStdin(modCommands.variables(variablesReference,seq,filter,start,count));
+		}, seq);
 
 		vars.forEach((a)=>{
 			const lsid = a.value.match(/\{LocalisedString ([0-9]+)\}/);
@@ -917,231 +1391,367 @@ export class FactorioModRuntime extends EventEmitter {
 		return vars;
 	}
 
-	private luaBlockQuote(inbuff:Buffer){
-		const tailmatch = inbuff.toString().match(/\]=*$/);
-		const blockpad = "=".repeat((inbuff.toString().match(/\]=*\]/g)||[])
-			.map((matchstr)=>{return matchstr.length - 1;})
-			.reduce((prev,curr)=>{return Math.max(prev,curr);},
-			// force extra pad if the string ends with a square bracket followed by zero or more equals
-			// as it will be confused with the close bracket
-			tailmatch ? tailmatch[0].length : 0));
-
-		return Buffer.concat([Buffer.from(`[${blockpad}[`), inbuff, Buffer.from(`]${blockpad}]`) ]);
-	}
-
 	public async setVar(args: DebugProtocol.SetVariableArguments, seq: number): Promise<Variable> {
-		return new Promise<Variable>((resolve)=>{
-			this._setvars.set(seq, resolve);
-			this.writeStdin(`__DebugAdapter.setVariable(${args.variablesReference},${this.luaBlockQuote(Buffer.from(args.name))},${this.luaBlockQuote(Buffer.from(args.value))},${seq})\n`);
-		});
+		return this._pending.add<Variable>("setvar", seq, ()=>{
+			this.writeStdin(modCommands.setVariable(args.variablesReference,args.name,args.value,seq));
+		}, seq);
 	}
 
 	public async evaluate(args: DebugProtocol.EvaluateArguments, seq: number): Promise<EvaluateResponseBody> {
-		return new Promise<EvaluateResponseBody>((resolve)=>{
-			if(args.context === "repl" && !args.frameId)
-			{
-				let evalresult = {result:"cannot evaluate while running",type:"error",variablesReference:0,seq:seq};
-				resolve(evalresult);
-			}
-
-			this._evals.set(seq, resolve);
-			this.writeStdin(`__DebugAdapter.evaluate(${args.frameId},"${args.context}",${this.luaBlockQuote(Buffer.from(args.expression.replace(/\n/g," ")))},${seq})\n`);
-		});
-	}
-
-	private encodeVarInt(val:number) : Buffer {
-
-		if (val === 10)
-		{
-			// escape \n
-			val = 0xFFFFFFFF;
-		} else if (val === 26) {
-			val = 0xFFFFFFFE;
-		} else if (val === 13) {
-			val = 0xFFFFFFFD;
-		}
-		let prefix: number;
-		let firstmask: number;
-		let startshift: number;
-		let bsize: number;
-
-		if (val < 0x80)
+		if(args.context === "repl" && !args.frameId)
 		{
-			//[[1 byte]]
-			return Buffer.from([val]);
+			// run as a console command, allowing `/c` to be pasted in
+			const expression = args.expression.replace(/^\/c(ommand)?\s+/,"");
+			return this.queueCommand(modCommands.evaluateRunning(expression,seq), seq);
 		}
-		else if (val < 0x0800)
-		{
-			//[[2 bytes]]
-			bsize = 2;
-			prefix = 0xc0;
-			firstmask = 0x1f;
-			startshift = 6;
-		}
-		else if (val < 0x10000)
-		{
-			//[[3 bytes]]
-			bsize = 3;
-			prefix = 0xe0;
-			firstmask = 0x0f;
-			startshift = 12;
-		}
-		else if (val < 0x200000)
+		if (!this.inPrompt)
 		{
-			//[[4 bytes]]
-			bsize = 4;
-			prefix = 0xf0;
-			firstmask = 0x07;
-			startshift = 18;
+			// hovers and watches can only be answered while stopped, don't leave them to time out
+			throw new Error("cannot evaluate while running, except as a command in the Debug Console");
 		}
-		else if (val < 0x4000000)
+
+		return this._pending.add<EvaluateResponseBody>("eval", seq, ()=>{
+			this.writeStdin(modCommands.evaluate(args.frameId,args.context,args.expression,seq));
+		}, seq);
+	}
+
+	/**
+	 * Run a command in the debug adapter mod at the next on_tick prompt. The
+	 * command answers with `DBGeval` for `seq`.
+	 */
+	public async queueCommand(command: string, seq: number): Promise<EvaluateResponseBody> {
+		if (!this.canEvaluateRunning)
 		{
-			//[[5 bytes]]
-			bsize = 5;
-			prefix = 0xf8;
-			firstmask = 0x03;
-			startshift = 24;
+			let evalresult = {result:"cannot evaluate while running without debugging",type:"error",variablesReference:0,seq:seq};
+			return evalresult;
 		}
-		else
+		if (this.inPrompt)
 		{
-			//[[6 bytes]]
-			bsize = 6;
-			prefix = 0xfc;
-			firstmask = 0x03;
-			startshift = 30;
-		}
-
-		let buff = Buffer.alloc(bsize);
-		// eslint-disable-next-line no-bitwise
-		buff[0] = (prefix|((val>>startshift)&firstmask));
-		for (let shift = startshift-6, i=1; shift >= 0; shift -= 6, i++) {
-			// eslint-disable-next-line no-bitwise
-			buff[i] = (0x80|((val>>shift)&0x3f));
+			// the current prompt may be in any mod's Lua state, or before control
+			// stage, and there won't be another on_tick prompt until it continues
+			let evalresult = {result:"cannot run console commands while stopped, continue to run them at the next tick",type:"error",variablesReference:0,seq:seq};
+			return evalresult;
 		}
-		return buff;
+		const result = this._pending.add<EvaluateResponseBody>("eval", seq, ()=>{
+			this.queuedCommands.push({seq:seq, command:command});
+		}, seq);
+		// don't run it later if it has timed out or been cancelled by then
+		result.catch(()=>{
+			this.queuedCommands = this.queuedCommands.filter(queued=>queued.seq !== seq);
+		});
+		return result;
 	}
 
-	private encodeString(strval:string)
+	private runQueuedCommands()
 	{
-		const sbuff = Buffer.from(strval,"utf8");
-		const slength = this.encodeVarInt(sbuff.length);
-		return Buffer.concat([slength,sbuff]);
+		const queued = this.queuedCommands;
+		this.queuedCommands = [];
+		queued.forEach(queued=>this.writeStdin(queued.command));
 	}
 
-	private encodeBreakpoint(bp: DebugProtocol.SourceBreakpoint) : Buffer {
-		let linebuff = this.encodeVarInt(bp.line);
-		let hasExtra = 0;
-		let extras = new Array<Buffer>();
+	/**
+	 * Pause after `ticks` more ticks, continuing first if stopped.
+	 * @returns true if this continued execution
+	 */
+	public runTicks(ticks: number): boolean {
+		this.ticksUntilPause = ticks;
+		if (!this.inPrompt) { return false; }
+		this.continue();
+		return true;
+	}
 
-		if (bp.condition)
+	public async completions(args: DebugProtocol.CompletionsArguments, seq: number): Promise<DebugProtocol.CompletionItem[]> {
+		const frameId = args.frameId;
+		if (!frameId)
 		{
-			// eslint-disable-next-line no-bitwise
-			hasExtra |= 1;
-			extras.push(this.encodeString(bp.condition.replace("\n"," ")));
+			// no locals or globals to look in while running
+			return [];
 		}
+		return this._pending.add<DebugProtocol.CompletionItem[]>("completions", seq, ()=>{
+			this.writeStdin(modCommands.completions(frameId,args.text,args.column,seq));
+		}, seq);
+	}
 
-		if (bp.hitCondition)
+	/**
+	 * Cancel requests to the mod made for DAP request `requestSeq`.
+	 */
+	public cancel(requestSeq: number): boolean {
+		return this._pending.cancel(requestSeq);
+	}
+
+	private resolvePending<T>(kind: string, id: number, value: T)
+	{
+		let resolved = this._pending.resolve(kind, id, value);
+		if (!resolved && this.replaying)
+		{
+			// replayed answers carry the seqs from the recorded session, but
+			// the mod answers in order, so match them to the oldest request
+			const oldest = this._pending.oldest(kind);
+			if (oldest !== undefined)
+			{
+				resolved = this._pending.resolve(kind, oldest, value);
+			}
+		}
+		if (!resolved && this.trace)
 		{
-			// eslint-disable-next-line no-bitwise
-			hasExtra |= 2;
-			extras.push(this.encodeString(bp.hitCondition.replace("\n"," ")));
+			this.sendEvent('output', `!! Received ${kind} ${id} with no pending request`, "console");
 		}
+	}
 
-		if (bp.logMessage)
+	private addChunk(chunk:ChunkId, name:string, module:string) : LoadedChunk
+	{
+		const key = `${chunk.state}/${chunk.id}`;
+		let loaded = this._chunks.get(key);
+		if (!loaded)
 		{
-			// eslint-disable-next-line no-bitwise
-			hasExtra |= 4;
-			extras.push(this.encodeString(bp.logMessage.replace("\n"," ")));
+			loaded = {
+				chunk: chunk,
+				name: name,
+				module: module,
+				sourceReference: this._nextSourceReference++,
+			};
+			this._chunks.set(key,loaded);
+			this._chunksByRef.set(loaded.sourceReference,loaded);
 		}
+		return loaded;
+	}
 
-		return Buffer.concat([linebuff,Buffer.from([hasExtra]),Buffer.concat(extras)]);
+	private chunkSource(loaded:LoadedChunk) : Source
+	{
+		// named like a file in the mod so the Loaded Scripts view groups it with that mod
+		return new Source(`__${loaded.module}__/${loaded.name}`, undefined, loaded.sourceReference, `loaded by ${loaded.module}`);
 	}
 
-	private encodeBreakpoints(filename:string,breaks:DebugProtocol.SourceBreakpoint[]) : Buffer {
-		const fnbuff = this.encodeString(filename);
+	private fileSource(filePath:string) : Source
+	{
+		return new Source(path.basename(filePath), this.convertDebuggerPathToClient(filePath));
+	}
 
-		const plainbps = breaks.filter(bp => !bp.condition && !bp.hitCondition && !bp.logMessage).map(bp => bp.line);
-		let plainbuff : Buffer;
-		if (plainbps.length === 0)
+	public loadedSources(): Source[] {
+		return [
+			...Array.from(this._loadedFiles).map(this.fileSource,this),
+			...Array.from(this._chunksByRef.values()).map(this.chunkSource,this),
+		];
+	}
+
+	public async source(sourceReference: number, seq: number): Promise<string|undefined> {
+		const loaded = this._chunksByRef.get(sourceReference);
+		if (!loaded)
+		{
+			return undefined;
+		}
+		if (loaded.content === undefined && loaded.unavailable === undefined)
 		{
-			plainbuff = Buffer.from([0xff]);
+			if (!this.inPrompt)
+			{
+				// can only fetch it from the mod while stopped, but don't cache the failure
+				return undefined;
+			}
+			const result = await this._pending.add<{content?:string; unavailable?:string}>("source", seq, ()=>{
+				this.writeStdin(modCommands.source(loaded.chunk,seq));
+			}, seq);
+			loaded.content = result.content;
+			loaded.unavailable = result.unavailable;
 		}
-		else if (plainbps.length === 10)
+		if (loaded.unavailable !== undefined)
 		{
-			let countbuff = Buffer.from([0xfe]);
-			plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => this.encodeVarInt(line)))]);
+			throw new Error(loaded.unavailable);
 		}
-		else if (plainbps.length === 26)
+		return loaded.content;
+	}
+
+	private async fetchExceptionInfo(): Promise<ExceptionInfo> {
+		const info = await this._pending.add<ExceptionInfo>("exceptioninfo", 0, ()=>{
+			this.writeStdin(modCommands.exceptionInfo(0));
+		});
+		if (info.value?.variablesReference)
 		{
-			let countbuff = Buffer.from([0xfd]);
-			plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => this.encodeVarInt(line)))]);
+			// the exception widget can't expand values, so put the structured error in the console
+			this.sendEvent('output', `Error value: ${info.value.value}`, "console", undefined, undefined, undefined, info.value.variablesReference);
 		}
-		else if (plainbps.length === 13)
+		return info;
+	}
+
+	public async exceptionInfo(seq: number): Promise<DebugProtocol.ExceptionInfoResponse['body']> {
+		if (!this._exceptionInfo)
 		{
-			let countbuff = Buffer.from([0xfc]);
-			plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => this.encodeVarInt(line)))]);
+			this._exceptionInfo = this.fetchExceptionInfo();
+			this._exceptionInfo.catch(()=>{ this._exceptionInfo = undefined; });
 		}
-		else
+		const info = await this._exceptionInfo;
+		const filter = info.filter ?? "unhandled";
+		return {
+			exceptionId: filter,
+			description: this._exceptionText,
+			breakMode: filter === "unhandled" ? "unhandled" : "always",
+			details: {
+				message: this._exceptionText,
+				typeName: info.entrypoint ? `${filter} in ${info.entrypoint}` : filter,
+				stackTrace: info.traceback,
+			},
+		};
+	}
+
+	private breakpointsChanged():boolean {
+		return this._breakPointsChanged.size !== 0 || this._functionBreakPointsChanged || this._eventBreakPointsChanged;
+	}
+
+	private updateBreakpoints(updateAll:boolean = false) {
+		let changes = Array<Buffer>();
+
+		this._breakPoints.forEach((breakpoints:DebugProtocol.SourceBreakpoint[], filename:string) => {
+			if (updateAll || this._breakPointsChanged.has(filename))
+			{
+				changes.push(modCommands.updateBreakpoints(filename,breakpoints));
+			}
+		});
+		this._breakPointsChanged.clear();
+
+		if (updateAll || this._functionBreakPointsChanged)
 		{
-			let countbuff = Buffer.from([plainbps.length]);
-			plainbuff = Buffer.concat([countbuff,Buffer.concat(plainbps.map(line => this.encodeVarInt(line)))]);
+			changes.push(modCommands.updateFunctionBreakpoints(this._functionBreakPoints.map(fbp=>fbp.bp)));
+			this._functionBreakPointsChanged = false;
 		}
 
-		const complexbps = breaks.filter(bp => bp.condition || bp.hitCondition || bp.logMessage);
-		let complexbuff : Buffer;
-		if (complexbps.length === 0)
+		if (updateAll || this._eventBreakPointsChanged)
 		{
-			complexbuff = Buffer.from([0xff]);
+			changes.push(modCommands.updateEventBreakpoints(Array.from(this._eventBreakPoints)));
+			this._eventBreakPointsChanged = false;
 		}
-		else if (complexbps.length === 10)
+		this.writeStdin(Buffer.concat(changes));
+	}
+
+	/*
+	 * Set breakpoint in file with given line.
+	 */
+	public async setBreakPoints(clientPath: string, bps: DebugProtocol.SourceBreakpoint[] | undefined) : Promise<DebugProtocol.Breakpoint[]> {
+		const source:SourceBreakpoints = {
+			bps: bps || [],
+			breakpoints: (bps || []).map(bp=>{
+				return { id: this._nextBreakpointId++, line: bp.line, verified: false };
+			}),
+		};
+		this._sourceBreakPoints.set(clientPath, source);
+		await this.verifyBreakPoints(clientPath, source);
+		return source.breakpoints;
+	}
+
+	/*
+	 * Check breakpoints against the module map and the lines that have code in the file,
+	 * moving them to the nearest code line where needed, and pass them on to the mod.
+	 */
+	private async verifyBreakPoints(clientPath: string, source: SourceBreakpoints) {
+		const debugPath = this.convertClientPathToDebugger(clientPath);
+		if (source.debugPath && source.debugPath !== debugPath)
 		{
-			let countbuff = Buffer.from([0xfe]);
-			complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => this.encodeBreakpoint(bp)))]);
+			// clear them from wherever they were before
+			this._breakPoints.set(source.debugPath, []);
+			this._breakPointsChanged.add(source.debugPath);
 		}
-		else if (complexbps.length === 26)
+		source.debugPath = debugPath;
+
+		const modname = debugPath.match(/^@__(.+?)__\//);
+		if (!modname || !this._modules.has(modname[1]))
 		{
-			let countbuff = Buffer.from([0xfd]);
-			complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => this.encodeBreakpoint(bp)))]);
+			const message = this._modules.size === 0 ? "mod list not loaded yet" : "file is not part of a loaded mod";
+			source.breakpoints.forEach(bp=>{
+				bp.verified = false;
+				bp.message = message;
+			});
+			this._breakPoints.set(debugPath, []);
+			this._breakPointsChanged.add(debugPath);
+			return;
 		}
-		else if (complexbps.length === 13)
+
+		let lines:number[]|undefined;
+		try
 		{
-			let countbuff = Buffer.from([0xfc]);
-			complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => this.encodeBreakpoint(bp)))]);
+			const text = (await this.host.readFile(clientPath)).toString("utf8");
+			lines = Array.from(codeLines(text)).sort((a,b)=>a-b);
 		}
-		else
+		catch (ex)
 		{
-			let countbuff = Buffer.from([complexbps.length]);
-			complexbuff = Buffer.concat([countbuff,Buffer.concat(complexbps.map(bp => this.encodeBreakpoint(bp)))]);
+			// can't check lines without the file, so trust them as given
+			this.host.output.appendLine(`unable to read ${clientPath} to check breakpoints: ${ex}`);
 		}
 
-		return Buffer.concat([fnbuff,plainbuff,complexbuff]);
+		const sendbps = new Array<DebugProtocol.SourceBreakpoint>();
+		source.bps.forEach((bp,i)=>{
+			const breakpoint = source.breakpoints[i];
+			breakpoint.message = undefined;
+			breakpoint.line = bp.line;
+			if (lines)
+			{
+				if (lines.length === 0)
+				{
+					breakpoint.verified = false;
+					breakpoint.message = "no code in this file";
+					return;
+				}
+				// prefer the next line with code, or the last one if there is none after
+				breakpoint.line = lines.find(line=>line >= bp.line) ?? lines[lines.length-1];
+			}
+			breakpoint.verified = true;
+			sendbps.push({...bp, line: breakpoint.line!});
+		});
+		this._breakPoints.set(debugPath, sendbps);
+		this._breakPointsChanged.add(debugPath);
 	}
-	private updateBreakpoints(updateAll:boolean = false) {
-		let changes = Array<Buffer>();
 
-		this._breakPoints.forEach((breakpoints:DebugProtocol.SourceBreakpoint[], filename:string) => {
-			if (updateAll || this._breakPointsChanged.has(filename))
+	/*
+	 * Set breakpoints on functions by global name or by `__modname__/file.lua:name`.
+	 */
+	public setFunctionBreakPoints(bps: DebugProtocol.FunctionBreakpoint[]) : DebugProtocol.Breakpoint[] {
+		this._functionBreakPoints = [];
+		this._functionBreakPointsChanged = true;
+
+		return bps.map(bp=>{
+			const breakpoint:DebugProtocol.Breakpoint = { id: this._nextBreakpointId++, verified: false };
+			const qualified = bp.name.match(/^__(.+?)__\/(.+):([a-zA-Z_][a-zA-Z0-9_]*)$/);
+			if (qualified)
+			{
+				// qualified names are matched by source and name, and the mod verifies
+				// them the first time the function is called
+				if (this._modules.has(qualified[1]))
+				{
+					breakpoint.message = `function ${qualified[3]} not called yet`;
+				}
+				else
+				{
+					breakpoint.message = `mod ${qualified[1]} is not loaded`;
+				}
+			}
+			else if (bp.name.match(/^[a-zA-Z_][a-zA-Z0-9_]*([.:][a-zA-Z_][a-zA-Z0-9_]*)*$/))
 			{
-				changes.push(Buffer.concat([
-					Buffer.from("__DebugAdapter.updateBreakpoints("),
-					this.luaBlockQuote(this.encodeBreakpoints(filename,breakpoints)),
-					Buffer.from(")\n")
-				]));
+				// global names are resolved in the mod, and will be verified when it finds them
+				breakpoint.message = `function ${bp.name} not found yet`;
 			}
+			else
+			{
+				breakpoint.message = `invalid function name ${bp.name}`;
+				return breakpoint;
+			}
+			this._functionBreakPoints.push({bp:bp, breakpoint:breakpoint});
+			return breakpoint;
 		});
-		this._breakPointsChanged.clear();
-		this.writeStdin(Buffer.concat(changes));
 	}
 
 	/*
-	 * Set breakpoint in file with given line.
+	 * Set breakpoints on the first line of any hooked handler for the given events.
 	 */
-	public setBreakPoints(path: string, bps: DebugProtocol.SourceBreakpoint[] | undefined) : Breakpoint[] {
-
-		this._breakPoints.set(path, bps || []);
-		this._breakPointsChanged.add(path);
+	public setEventBreakPoints(events: string[])
+	{
+		this._eventBreakPoints.clear();
+		events.filter(e=>e.match(/^[a-zA-Z0-9_\-]+$/)).forEach(e=>this._eventBreakPoints.add(e));
+		this._eventBreakPointsChanged = true;
+	}
 
-		return (bps || []).map((bp) => { return {line:bp.line, verified:true }; });
+	public eventBreakPoints()
+	{
+		return {
+			events: this._eventNames,
+			enabled: Array.from(this._eventBreakPoints),
+		};
 	}
 
 	public setExceptionBreakpoints(filters: string[])
@@ -1150,8 +1760,9 @@ export class FactorioModRuntime extends EventEmitter {
 		filters.forEach(f=>this._exceptionFilters.add(f));
 	}
 
-	private updateInfoJson(uri:vscode.Uri)
+	private updateInfoJson(infoJson:string)
 	{
+		const uri = URI.parse(infoJson);
 		let jsonpath = uri.path;
 		if (os.platform() === "win32" && jsonpath.startsWith("/")) {jsonpath = jsonpath.substr(1);}
 		const moddata = JSON.parse(fs.readFileSync(jsonpath, "utf8"));
@@ -1183,7 +1794,7 @@ export class FactorioModRuntime extends EventEmitter {
 			return clientPath.replace(thismodule.symbolFilePath!,"@__"+thismodule.name+"__");
 		}
 
-		FactorioModRuntime.output.appendLine(`unable to translate path ${clientPath}`);
+		this.host.output.appendLine(`unable to translate path ${clientPath}`);
 		return clientPath;
 	}
 	public convertDebuggerPathToClient(debuggerPath: string): string
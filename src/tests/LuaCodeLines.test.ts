@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { codeLines } from '../LuaCodeLines';
+
+const lines = (source:string)=>Array.from(codeLines(source)).sort((a, b)=>a - b);
+
+suite('codeLines', () => {
+
+	test('skips blank lines and comments', () => {
+		assert.deepEqual(lines("local a = 1\n\n-- comment\n--[[ long\ncomment ]]\nlocal b = 2\n"), [1, 6]);
+	});
+
+	test('counts only the first line of a long string', () => {
+		assert.deepEqual(lines("local s = [[\none\ntwo]]\nprint(s)\n"), [1, 4]);
+	});
+
+	test('skips the end of a block that is not a function', () => {
+		assert.deepEqual(lines("if a then\n  f()\nelse\n  g()\nend\nfor i = 1, 3 do\n  f(i)\nend\n"), [1, 2, 4, 6, 7]);
+	});
+
+	test('keeps the end of a function, which returns there', () => {
+		assert.deepEqual(lines("local function f()\n  if a then\n    g()\n  end\nend\n"), [1, 2, 3, 5]);
+		assert.deepEqual(lines("t.f = function()\n  while a do\n    g()\n  end\nend\n"), [1, 2, 3, 5]);
+	});
+
+	test('keeps the } of a table constructor, which sets its items there', () => {
+		assert.deepEqual(lines("local t = {\n  1,\n  2,\n}\n"), [1, 2, 3, 4]);
+	});
+
+	test('skips a closing ) alone on a line', () => {
+		assert.deepEqual(lines("f(\n  a\n)\n"), [1, 2]);
+	});
+});
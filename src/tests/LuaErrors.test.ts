@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { LuaErrorParser } from '../LuaErrors';
+
+suite('LuaErrorParser', () => {
+
+	test('reads an error at the start of a line', () => {
+		const parsed = new LuaErrorParser().line("__mymod__/control.lua:5: attempt to index local 'x' (a nil value)");
+		assert.deepEqual(parsed, { kind: "error", error: {
+			modname: "mymod", file: "control.lua", line: 5,
+			message: "attempt to index local 'x' (a nil value)", traceback: [] } });
+	});
+
+	test('reads errors after the text Factorio puts before them', () => {
+		const parser = new LuaErrorParser();
+		const load = parser.line("   1.234 Error ModManager.cpp:1024: Failed to load mods: __mymod__/data.lua:3: attempt to index nil");
+		assert.equal(load?.kind, "error");
+		assert.equal(load?.error.file, "data.lua");
+		assert.equal(load?.error.message, "attempt to index nil");
+
+		const event = parser.line("Error while running event mymod::on_tick (ID 0) __mymod__/script/tick.lua:12: boom");
+		assert.equal(event?.kind, "error");
+		assert.equal(event?.error.file, "script/tick.lua");
+		assert.equal(event?.error.line, 12);
+	});
+
+	test('ignores log() output', () => {
+		const parser = new LuaErrorParser();
+		assert.equal(parser.line("  12.345 Script @__mymod__/control.lua:5: message"), undefined);
+		assert.equal(parser.line("  12.345 Script @__mymod__/control.lua:5: Error while running __mymod__/control.lua:6: x"), undefined);
+	});
+
+	test('ignores locations in the middle of other output', () => {
+		assert.equal(new LuaErrorParser().line("loaded from __mymod__/control.lua:5: fine"), undefined);
+	});
+
+	test('collects the stack traceback', () => {
+		const parser = new LuaErrorParser();
+		parser.line("__mymod__/control.lua:5: boom");
+		assert.equal(parser.line("stack traceback:")?.kind, "traceback");
+		const frame = parser.line("\t__mymod__/lib.lua:9: in function 'f'");
+		assert.equal(frame?.kind, "frame");
+		assert.deepEqual(frame?.error.traceback, [ { text: "__mymod__/lib.lua:9: in function 'f'", modname: "mymod", file: "lib.lua", line: 9 } ]);
+		assert.equal(parser.line("\t[C]: in function 'error'")?.kind, "traceback");
+		assert.equal(parser.line("done"), undefined);
+	});
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+import { BufferSplitter } from '../BufferSplitter';
+import { parseModMessage, ModMessageReader, checkProtocolVersion, protocolVersion, stdoutFraming, luaBlockQuote, modCommands } from '../ModProtocol';
+
+suite('ModProtocol', () => {
+
+	suite('parseModMessage', () => {
+
+		test('leaves plain output alone', () => {
+			assert.equal(parseModMessage("Loading mod base 0.18.33"), undefined);
+			assert.equal(parseModMessage("DBGnotamessage: {}"), undefined);
+		});
+
+		test('reads prompts', () => {
+			assert.deepEqual(parseModMessage("DBG: on_tick"), { kind: "DBG", message: "on_tick" });
+		});
+
+		test('reads JSON bodies', () => {
+			assert.deepEqual(parseModMessage(`DBGvars: {"seq":12,"vars":[]}`), { kind: "DBGvars", message: { seq: 12, vars: [] } });
+			assert.deepEqual(parseModMessage(`EVTprotocol: {"version":1}`), { kind: "EVTprotocol", message: { version: 1 } });
+		});
+
+		test('reads messages with no body', () => {
+			assert.deepEqual(parseModMessage("DBGuntranslate"), { kind: "DBGuntranslate", message: undefined });
+		});
+
+		test('reads translations, which span lines', () => {
+			assert.deepEqual(parseModMessage("DBGtranslate: 7\nIron plate\nsecond line"),
+				{ kind: "DBGtranslate", message: { id: 7, translation: "Iron plate\nsecond line" } });
+		});
+
+		test('passes profile dumps whole', () => {
+			assert.deepEqual(parseModMessage("PROFILE:\n1:2:3"), { kind: "PROFILE", message: "PROFILE:\n1:2:3" });
+		});
+
+		test('throws for malformed bodies', () => {
+			assert.throws(() => parseModMessage("DBGvars: {seq"));
+		});
+	});
+
+	suite('ModMessageReader', () => {
+
+		test('dispatches to the handler for the kind', () => {
+			const seen = new Array<number>();
+			const reader = new ModMessageReader(error => assert.fail(error));
+			reader.on("DBGvars", vars => { seen.push(vars.seq); });
+			assert.equal(reader.dispatch(`DBGvars: {"seq":3,"vars":[]}`), true);
+			assert.deepEqual(seen, [3]);
+		});
+
+		test('reports unhandled messages as not dispatched', () => {
+			const reader = new ModMessageReader(error => assert.fail(error));
+			assert.equal(reader.dispatch(`DBGvars: {"seq":3,"vars":[]}`), false);
+			assert.equal(reader.dispatch("some output"), false);
+		});
+
+		test('reports malformed messages as errors', () => {
+			const errors = new Array<string>();
+			const reader = new ModMessageReader(error => errors.push(error));
+			reader.on("DBGvars", () => assert.fail("handler should not be called"));
+			assert.equal(reader.dispatch("DBGvars: {seq"), true);
+			assert.equal(errors.length, 1);
+		});
+	});
+
+	suite('checkProtocolVersion', () => {
+
+		test('accepts the current version', () => {
+			assert.equal(checkProtocolVersion(protocolVersion), undefined);
+		});
+
+		test('rejects other versions', () => {
+			assert.notEqual(checkProtocolVersion(protocolVersion + 1), undefined);
+		});
+
+		test('rejects a mod that did not announce one', () => {
+			assert.notEqual(checkProtocolVersion(undefined), undefined);
+		});
+	});
+
+	suite('stdoutFraming', () => {
+
+		test('splits lines, keeping block prints whole', () => {
+			const stream = new PassThrough();
+			const segments = new Array<string>();
+			new BufferSplitter(stream, stdoutFraming).on("segment", (segment:Buffer) => segments.push(segment.toString()));
+			stream.write("DBG: on_tick\n***DebugAdapterBlockPrint***DBGtranslate: 1\n");
+			stream.write("two\nlines***EndDebugAdapterBlockPrint***\nplain\n");
+			assert.deepEqual(segments, ["DBG: on_tick", "DBGtranslate: 1\ntwo\nlines", "plain"]);
+		});
+	});
+
+	suite('commands', () => {
+
+		test('quotes strings for Lua', () => {
+			assert.equal(luaBlockQuote(Buffer.from("a]]b")).toString(), "[=[a]]b]=]");
+			assert.equal(luaBlockQuote(Buffer.from("ends]")).toString(), "[=[ends]]=]");
+		});
+
+		test('passes the seq to answer with', () => {
+			assert.equal(modCommands.exceptionInfo(5), "__DebugAdapter.exceptionInfo(5)\n");
+		});
+	});
+});
@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DebugClient } from 'vscode-debugadapter-testsupport';
+import { removeDir } from '../ServerLaunch';
+import { MockStep } from './mock/factorio';
+
+suite('debug adapter', function() {
+	// each test starts the adapter and a mock Factorio as separate processes
+	this.timeout(20000);
+
+	const adapterPath = path.join(__dirname, "../debugAdapter.js");
+	const mockFactorioPath = path.join(__dirname, "mock/factorio.js");
+
+	let tempDir:string;
+	let modsPath:string;
+	let dc:DebugClient;
+
+	// launch Factorio as the mock, playing `script`
+	const launchArgs = (script:MockStep[])=>{
+		const scriptPath = path.join(tempDir, "script.json");
+		fs.writeFileSync(scriptPath, JSON.stringify(script), "utf8");
+		return {
+			factorioPath: process.execPath,
+			factorioArgs: [mockFactorioPath, scriptPath],
+			modsPath: modsPath,
+			manageMod: false,
+		};
+	};
+
+	// the mod's side of starting a session, up to running control.lua
+	const startup:MockStep[] = [
+		{ stdout: `EVTprotocol: {"version":1}` },
+		{ stdout: `EVTmodules: [{"id":"testmod","name":"testmod","version":"1.0.0"}]` },
+		{ stdout: "DBG: on_instrument_settings" },
+		{ expect: "^cont$" },
+	];
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "factoriomod-debug-"));
+		modsPath = path.join(tempDir, "mods");
+		fs.mkdirSync(path.join(modsPath, "testmod"), { recursive: true });
+		fs.writeFileSync(path.join(modsPath, "mod-list.json"),
+			JSON.stringify({ mods: [ {name:"base",enabled:true}, {name:"testmod",enabled:true} ] }), "utf8");
+		fs.writeFileSync(path.join(modsPath, "testmod/info.json"),
+			JSON.stringify({ name: "testmod", version: "1.0.0" }), "utf8");
+		fs.writeFileSync(path.join(modsPath, "testmod/control.lua"), "local x = 42\n", "utf8");
+
+		dc = new DebugClient("node", adapterPath, "factoriomod", {
+			env: Object.assign({}, process.env, { FACTORIOMOD_DEBUG_EXTENSION: path.join(tempDir, "extension") }),
+		});
+		return dc.start();
+	});
+
+	teardown(async () => {
+		await dc.stop();
+		removeDir(tempDir);
+	});
+
+	test('ends the session when Factorio exits', async () => {
+		await Promise.all([
+			dc.configurationSequence(),
+			dc.launch(launchArgs([...startup, { exit: 0 }])),
+			dc.waitForEvent("terminated"),
+		]);
+	});
+
+	test('ends the session when the mod speaks another protocol', async () => {
+		await Promise.all([
+			dc.launch(launchArgs([
+				{ stdout: `EVTprotocol: {"version":0}` },
+				{ stdout: "DBG: on_instrument_settings" },
+				{ expect: "^never$" },
+			])),
+			dc.waitForEvent("terminated"),
+		]);
+	});
+
+	test('can be disconnected after the dependency check cancels the launch', async () => {
+		// a mod package to install, so the mods are managed and checked
+		const modpackage = path.join(tempDir, "extension/modpackage");
+		fs.mkdirSync(modpackage, { recursive: true });
+		fs.writeFileSync(path.join(modpackage, "info.json"), JSON.stringify({ name: "debugadapter", version: "0.18.33" }), "utf8");
+		fs.writeFileSync(path.join(modpackage, "debugadapter.zip"), "");
+		fs.writeFileSync(path.join(modsPath, "testmod/info.json"),
+			JSON.stringify({ name: "testmod", version: "1.0.0", dependencies: ["missingmod"] }), "utf8");
+
+		// the dependency prompt goes unanswered, which cancels
+		await Promise.all([
+			dc.launch(Object.assign(launchArgs([]), { manageMod: true })),
+			dc.waitForEvent("terminated"),
+		]);
+		await dc.disconnectRequest();
+	});
+
+	test('can be disconnected after creating the map fails', async () => {
+		const args = launchArgs([ { exit: 1 } ]);
+		await Promise.all([
+			dc.launch(Object.assign(args, { createMapArgs: [mockFactorioPath, args.factorioArgs[1]] })),
+			dc.waitForEvent("terminated"),
+		]);
+		await dc.disconnectRequest();
+	});
+
+	test('pauses at the next tick when no hooked code runs', async () => {
+		await Promise.all([
+			dc.configurationSequence(),
+			dc.launch(launchArgs([
+				...startup,
+				{ stdout: "DBG: breakpoint" },
+				{ expect: String.raw`^__DebugAdapter\.pause\(true\)$` },
+				{ expect: "^cont$" },
+				{ stdout: "DBG: on_tick" },
+				{ expect: String.raw`^__DebugAdapter\.pause\(false\)$` },
+				{ expect: "^cont$" },
+				{ exit: 0 },
+			])),
+			dc.waitForEvent("stopped"),
+		]);
+
+		await dc.pauseRequest({ threadId: 1 });
+		const [, paused] = await Promise.all([
+			dc.continueRequest({ threadId: 1 }),
+			dc.waitForEvent("stopped"),
+		]);
+		assert.equal(paused.body.reason, "pause");
+
+		await Promise.all([
+			dc.continueRequest({ threadId: 1 }),
+			dc.waitForEvent("terminated"),
+		]);
+	});
+
+	test('fails hovers and watches at once while running', async () => {
+		await Promise.all([
+			dc.configurationSequence(),
+			dc.launch(Object.assign(launchArgs([
+				...startup,
+				{ stdout: `DBGprint: {"output":"running"}` },
+				{ expect: "^never$" },
+			]), { requestTimeout: 60000 })),
+			// printed once the mod is running
+			dc.assertOutput("console", "running"),
+		]);
+		await assert.rejects(dc.evaluateRequest({ expression: "game.tick", context: "watch" }));
+		await assert.rejects(dc.evaluateRequest({ expression: "x", context: "hover" }));
+	});
+
+	test('fails source requests for chunks loaded with a name', async () => {
+		await Promise.all([
+			dc.configurationSequence(),
+			dc.launch(launchArgs([
+				...startup,
+				{ stdout: "DBG: breakpoint" },
+				{ expect: String.raw`^__DebugAdapter\.stackTrace\(0,\d+\)$` },
+				{ stdout: `DBGstack: [{"id":1,"name":"(main chunk)","line":1,"column":1,"source":{"name":"(load 1)","chunk":{"state":"testmod","id":1}}}]` },
+				{ expect: String.raw`^__DebugAdapter\.source\(\[=*\[testmod\]=*\],1,(\d+)\)$` },
+				{ stdout: `DBGsource: {"seq":$1,"unavailable":"this chunk was loaded with a name, so its text is not available"}` },
+			])),
+			dc.waitForEvent("stopped"),
+		]);
+
+		const stack = await dc.stackTraceRequest({ threadId: 1 });
+		const sourceReference = stack.body.stackFrames[0].source?.sourceReference;
+		assert.ok(sourceReference);
+		// rather than showing placeholder text as the chunk's content
+		await assert.rejects(dc.sourceRequest({ sourceReference: sourceReference! }));
+	});
+
+	test('stops at a breakpoint, shows variables, continues and terminates', async () => {
+		const [,, stopped] = await Promise.all([
+			dc.configurationSequence(),
+			dc.launch(launchArgs([
+				...startup,
+				{ stdout: "DBG: breakpoint" },
+				{ expect: String.raw`^__DebugAdapter\.stackTrace\(0,\d+\)$` },
+				{ stdout: `DBGstack: [{"id":1,"name":"main chunk","line":1,"column":1,"source":{"name":"@__testmod__/control.lua","path":"@__testmod__/control.lua"}}]` },
+				{ expect: String.raw`^__DebugAdapter\.scopes\(1\)$` },
+				{ stdout: `DBGscopes: {"frameId":1,"scopes":[{"name":"Locals","variablesReference":5,"expensive":false}]}` },
+				{ expect: String.raw`^__DebugAdapter\.variables\(5,(\d+),` },
+				{ stdout: `DBGvars: {"seq":$1,"vars":[{"name":"x","value":"42","variablesReference":0}]}` },
+				{ expect: "^cont$" },
+				{ exit: 0 },
+			])),
+			dc.waitForEvent("stopped"),
+		]);
+		assert.equal(stopped.body.reason, "breakpoint");
+
+		const stack = await dc.stackTraceRequest({ threadId: 1 });
+		const frame = stack.body.stackFrames[0];
+		assert.equal(frame.name, "main chunk");
+		// mod paths are mapped to the mod's folder in modsPath
+		assert.ok(frame.source?.path?.endsWith("/testmod/control.lua"), frame.source?.path);
+
+		const scopes = await dc.scopesRequest({ frameId: frame.id });
+		assert.equal(scopes.body.scopes[0].name, "Locals");
+
+		const vars = await dc.variablesRequest({ variablesReference: scopes.body.scopes[0].variablesReference });
+		assert.deepEqual(vars.body.variables.map(v=>[v.name, v.value]), [["x", "42"]]);
+
+		await Promise.all([
+			dc.continueRequest({ threadId: 1 }),
+			dc.waitForEvent("terminated"),
+		]);
+	});
+});
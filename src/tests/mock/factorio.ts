@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+
+/**
+ * One step of a mock Factorio run. `stdout` lines may use `$1`.. for groups
+ * captured by the last `expect`.
+ */
+export interface MockStep {
+	// wait for stdin to match this pattern, skipping anything before it
+	expect?: string
+	stdout?: string
+	exit?: number
+}
+
+// launched as `node factorio.js <script.json> [factorio args...]` in place of
+// Factorio, to play back the mod's side of a session
+const script:MockStep[] = JSON.parse(fs.readFileSync(process.argv[2], "utf8"));
+const expectTimeout = 5000;
+
+let input = "";
+let captures:string[] = [];
+let waiting: { pattern:RegExp; resolve:()=>void }|undefined;
+
+const checkInput = ()=>{
+	if (!waiting) { return; }
+	const match = waiting.pattern.exec(input);
+	if (match)
+	{
+		captures = Array.from(match);
+		input = input.substr(match.index + match[0].length);
+		const resolve = waiting.resolve;
+		waiting = undefined;
+		resolve();
+	}
+};
+
+const fail = (message:string)=>{
+	process.stderr.write(`mock factorio: ${message}, received:\n${input}\n`);
+	process.exit(2);
+};
+
+process.stdin.on("data", (data:Buffer)=>{
+	input += data.toString();
+	checkInput();
+});
+process.stdin.on("end", ()=>{
+	if (waiting) { fail(`stdin closed while expecting /${waiting.pattern.source}/`); }
+});
+
+const expectInput = (pattern:string)=>new Promise<void>(resolve=>{
+	const timer = setTimeout(()=>fail(`timed out expecting /${pattern}/`), expectTimeout);
+	waiting = { pattern: new RegExp(pattern, "m"), resolve: ()=>{
+		clearTimeout(timer);
+		resolve();
+	}};
+	checkInput();
+});
+
+// let the last output drain before leaving
+const exit = (code:number)=>process.stdout.write("", ()=>process.exit(code));
+
+const run = async ()=>{
+	for (const step of script) {
+		if (step.expect !== undefined)
+		{
+			await expectInput(step.expect);
+		}
+		if (step.stdout !== undefined)
+		{
+			process.stdout.write(`${step.stdout.replace(/\$(\d+)/g, (_, group)=>captures[Number(group)] ?? "")}\n`);
+		}
+		if (step.exit !== undefined)
+		{
+			exit(step.exit);
+			return;
+		}
+	}
+	exit(0);
+};
+run();